@@ -1,207 +1,605 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Canvas from './components/Canvas';
 import Stats from './components/Stats';
 import CodeViewer from './components/CodeViewer';
-import { AlgorithmType, Node, Obstacle, Point, SolverParams, CodeStep } from './types';
-import { RRTTree } from './services/rrt';
+import Timeline from './components/Timeline';
+import ConvergenceChart, { ConvergenceSeries } from './components/ConvergenceChart';
+import { AlgorithmType, Node, Obstacle, Point, SolverParams, CodeStep, PresetType, SolverStatus, TreeDiff, SpatialIndexType, QueryStats, CollisionMode, CollisionStats, TreeSide, Ellipse, RadiusMode, PathProcessingOptions, ShortcutMode, Scene, OccupancyGrid, OccupancyOptions, TimelineEvent, ComparisonConfig, SolverCounters, MotionModel, EdgeEnd, CostRegion, Goal } from './types';
+import { SolverClient } from './services/solverClient';
+import { SolverResponse } from './services/solverProtocol';
+import { RunMirror, applySolverResponse, emptyRun, patchNodes } from './services/runMirror';
 import { getExplanation } from './services/ai';
-import { Play, Pause, RotateCcw, Trash2, Info, BrainCircuit, StepForward, Grid3X3, Square, ArrowRight, Zap, Code } from 'lucide-react';
+import { createPreset, defaultEndpoints } from './services/presets';
+import { processPath } from './services/pathProcessing';
+import { replayTimeline, solutionMarkers } from './services/timeline';
+import { liveNodeCount, steersCar } from './services/rrt';
+import { GrayImage, buildOccupancyGrid, decodeMapImage } from './services/occupancyMap';
+import { MAX_WORLD, MIN_WORLD, SCENE_VERSION, decodeSceneHash, encodeSceneHash, hasSceneHash, sceneFromJson, sceneToJson } from './services/scene';
+import { createRng, randomSeed } from './utils/random';
+import { dist, ellipseArea, optimalGamma } from './utils/geo';
+import { downloadBlob } from './utils/download';
+import { DEFAULT_TURNING_RADIUS } from './utils/curves';
+import { MAX_COST_MULTIPLIER, MIN_COST_MULTIPLIER, minMultiplier, polylineCost } from './utils/costRegions';
+import { MAX_GOAL_RADIUS, MIN_GOAL_RADIUS, circleGoal, moveGoal } from './utils/goals';
+import { Play, Pause, RotateCcw, Trash2, Info, BrainCircuit, StepForward, Grid3X3, Square, ArrowRight, Zap, Code, Shuffle, Lock, LockOpen, ArrowLeftRight, Upload, Download, Link, Image as ImageIcon, Undo2, Redo2, ChartLine } from 'lucide-react';
 
+// Default world size; imported scenes may use another
 const WIDTH = 800;
 const HEIGHT = 600;
 
+// The part of the scene covered by undo / redo
+interface MapSnapshot {
+  obstacles: Obstacle[];
+  costRegions: CostRegion[];
+  start: Point;
+  goals: Goal[];
+}
+
+const MAX_HISTORY = 100;
+
+// Short summary of what the comparison run changes, e.g. "step 40px, r 90px"
+const describeOverrides = (overrides: Partial<SolverParams>): string => {
+  const parts: string[] = [];
+  if (overrides.stepSize !== undefined) parts.push(`step ${overrides.stepSize}px`);
+  if (overrides.goalBias !== undefined) parts.push(`bias ${(overrides.goalBias * 100).toFixed(0)}%`);
+  if (overrides.searchRadius !== undefined) parts.push(`r ${overrides.searchRadius}px`);
+  if (overrides.informed !== undefined) parts.push(overrides.informed ? 'informed' : 'uninformed');
+  return parts.join(', ');
+};
+
+// A run stops at max iterations; RRT and RRT-Connect also stop at their first path,
+// while RRT* keeps optimizing
+const runFinished = (algorithm: AlgorithmType, found: boolean, nodeCount: number, maxIterations: number): boolean => {
+  return (found && algorithm !== 'RRT*') || nodeCount >= maxIterations;
+};
+
 function App() {
   // --- State ---
   const [algorithm, setAlgorithm] = useState<AlgorithmType>('RRT');
   const [isRunning, setIsRunning] = useState(false);
-  const [iteration, setIteration] = useState(0);
-  const [nodes, setNodes] = useState<Node[]>([]);
+  const [solveMs, setSolveMs] = useState(0);
+  // The live tree is nodesRef, extended and patched in place; treeRevision counts changes
+  const [treeRevision, setTreeRevision] = useState(0);
   const [path, setPath] = useState<number[]>([]);
-  const [obstacles, setObstacles] = useState<Obstacle[]>([
-    { x: 300, y: 150, w: 50, h: 300 },
-    { x: 500, y: 150, w: 50, h: 300 },
-    { x: 350, y: 280, w: 150, h: 50 }
-  ]);
-  const [start, setStart] = useState<Point>({ x: 50, y: HEIGHT / 2 });
-  const [goal, setGoal] = useState<Point>({ x: WIDTH - 50, y: HEIGHT / 2 });
+  const [pathCost, setPathCost] = useState<number | null>(null);
+  const [queryStats, setQueryStats] = useState<QueryStats | null>(null);
+  const [collisionStats, setCollisionStats] = useState<CollisionStats | null>(null);
+  const [counters, setCounters] = useState<SolverCounters | null>(null);
+  const [obstacles, setObstacles] = useState<Obstacle[]>(() => createPreset('default', WIDTH, HEIGHT));
+  const [costRegions, setCostRegions] = useState<CostRegion[]>([]);
+  // Multiplier given to newly drawn cost regions
+  const [costMultiplier, setCostMultiplier] = useState(3);
+  const [start, setStart] = useState<Point>(() => defaultEndpoints(WIDTH, HEIGHT).start);
+  const [goals, setGoals] = useState<Goal[]>(() => defaultEndpoints(WIDTH, HEIGHT).goals);
   const [found, setFound] = useState(false);
+  const [world, setWorld] = useState({ width: WIDTH, height: HEIGHT });
+  // World size being typed in, applied with Resize
+  const [worldDraft, setWorldDraft] = useState({ width: WIDTH, height: HEIGHT });
+  // Replanning: obstacle edits repair the current tree instead of restarting the run
+  const [replanning, setReplanning] = useState(false);
+
+  // Undo / redo of obstacle, start and goal edits. A drag is recorded once, from the
+  // snapshot taken when it began.
+  const [undoStack, setUndoStack] = useState<MapSnapshot[]>([]);
+  const [redoStack, setRedoStack] = useState<MapSnapshot[]>([]);
+  const editStartRef = useRef<MapSnapshot | null>(null);
+
+  // Bitmap map. The decoded image is kept so threshold and inversion can be re-applied;
+  // a grid restored from a scene has no image and only its resolution can change.
+  const [mapImage, setMapImage] = useState<GrayImage | null>(null);
+  const [mapOptions, setMapOptions] = useState<OccupancyOptions>({ threshold: 0.65, invert: false, resolution: 1 });
+  const [occupancy, setOccupancy] = useState<OccupancyGrid | null>(null);
+  const [mapError, setMapError] = useState<string | null>(null);
+  const mapInputRef = useRef<HTMLInputElement>(null);
   
   // Params
   const [stepSize, setStepSize] = useState(30);
   const [maxIterations, setMaxIterations] = useState(2000);
   const [goalBias, setGoalBias] = useState(0.05);
   const [searchRadius, setSearchRadius] = useState(60);
+  const [spatialIndex, setSpatialIndex] = useState<SpatialIndexType>('grid');
+  const [collisionMode, setCollisionMode] = useState<CollisionMode>('exact');
+  const [informed, setInformed] = useState(false);
+  const [radiusMode, setRadiusMode] = useState<RadiusMode>('fixed');
+  const [gamma, setGamma] = useState(() => Math.round(optimalGamma(WIDTH * HEIGHT)));
+  const [kScale, setKScale] = useState(Math.E);
+  const [motionModel, setMotionModel] = useState<MotionModel>('holonomic');
+  const [turningRadius, setTurningRadius] = useState(DEFAULT_TURNING_RADIUS);
+  const [startHeading, setStartHeading] = useState(0);
+
+  // Path post-processing (applied to the found path only, the tree is untouched)
+  const [pathProcessing, setPathProcessing] = useState<PathProcessingOptions>({
+    shortcut: 'none',
+    randomIterations: 100,
+    smoothing: 'none',
+    smoothingIterations: 3,
+  });
+
+  // Seed: unlocked runs draw a fresh seed, locked runs replay the shown one
+  const [seed, setSeed] = useState<number>(() => randomSeed());
+  const [seedLocked, setSeedLocked] = useState(false);
 
   // Code Visualization State
   const [isCodeOpen, setIsCodeOpen] = useState(false);
+  const [isChartOpen, setIsChartOpen] = useState(false);
   const [currentCodeStep, setCurrentCodeStep] = useState<CodeStep>('SAMPLE');
+  const [activeTree, setActiveTree] = useState<TreeSide | null>(null);
+  const [informedRegion, setInformedRegion] = useState<Ellipse | null>(null);
+  const [rewireRadius, setRewireRadius] = useState<number | null>(null);
+  const [rewireK, setRewireK] = useState<number | null>(null);
   
   // Visual Temp State
   const [tempSample, setTempSample] = useState<Point | null>(null);
-  const [tempNewPoint, setTempNewPoint] = useState<Point | null>(null);
+  const [tempNewPoint, setTempNewPoint] = useState<EdgeEnd | null>(null);
   const [tempNearest, setTempNearest] = useState<Node | null>(null);
 
+  // Result of the last import / share action, shown under the scene buttons
+  const [sceneMessage, setSceneMessage] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Timeline: the run's event log (appended from each diff) and the iteration being
+  // replayed, or null while following the live run
+  const timelineRef = useRef<TimelineEvent[]>([]);
+  const [timelineLength, setTimelineLength] = useState(0);
+  const [replayAt, setReplayAt] = useState<number | null>(null);
+
+  // Side-by-side comparison: a second solver on the same scene and seed, sharing the
+  // Play / Step controls. compareRunRef mirrors compareRun for the play loop.
+  const [comparison, setComparison] = useState<ComparisonConfig | null>(null);
+  const [compareRun, setCompareRun] = useState<RunMirror>(() => emptyRun());
+  const compareSolverRef = useRef<SolverClient | null>(null);
+  const compareRunRef = useRef<RunMirror>(compareRun);
+  const compareMessageRef = useRef<(msg: SolverResponse) => void>(() => {});
+  // Reacts to a new obstacle list; reassigned every render so it sees the current settings
+  const obstaclesChangedRef = useRef<(next: Obstacle[]) => void>(() => {});
+
   // AI Explanation
   const [explanation, setExplanation] = useState<string | null>(null);
   const [loadingExplanation, setLoadingExplanation] = useState(false);
 
-  // Solver Instance Ref
-  const treeRef = useRef<RRTTree | null>(null);
+  // Solver runs in a worker; nodesRef mirrors its tree from the diffs it sends back
+  const solverRef = useRef<SolverClient | null>(null);
+  const nodesRef = useRef<Node[]>([]);
+  const solverMessageRef = useRef<(msg: SolverResponse) => void>(() => {});
   const animationFrameRef = useRef<number | null>(null);
+  // Refreshed every render so the once-registered key listener sees current history
+  const historyKeyRef = useRef<(e: KeyboardEvent) => void>(() => {});
 
   // --- Handlers ---
 
   const resetSimulation = useCallback(() => {
     setIsRunning(false);
     if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-    setNodes([]);
+    nodesRef.current = [];
+    setTreeRevision(r => r + 1);
     setPath([]);
-    setIteration(0);
+    setPathCost(null);
+    setQueryStats(null);
+    setCollisionStats(null);
+    setCounters(null);
+    setSolveMs(0);
     setFound(false);
     // Reset visual temp vars
     setTempSample(null);
     setTempNewPoint(null);
     setTempNearest(null);
     setCurrentCodeStep('SAMPLE');
+    setActiveTree(null);
+    setInformedRegion(null);
+    setRewireRadius(null);
+    setRewireK(null);
+    timelineRef.current = [];
+    setTimelineLength(0);
+    setReplayAt(null);
+    const emptyCompare = emptyRun();
+    compareRunRef.current = emptyCompare;
+    setCompareRun(emptyCompare);
     
-    treeRef.current = null;
+    solverRef.current?.reset();
+    compareSolverRef.current?.reset();
   }, []);
 
+  // --- Edit history ---
+
+  const currentMap = (): MapSnapshot => ({ obstacles, costRegions, start, goals });
+
+  const pushUndo = (snapshot: MapSnapshot) => {
+    setUndoStack([...undoStack.slice(-(MAX_HISTORY - 1)), snapshot]);
+    setRedoStack([]);
+  };
+
+  const restoreMap = (snapshot: MapSnapshot) => {
+    setObstacles(snapshot.obstacles);
+    setCostRegions(snapshot.costRegions);
+    setStart(snapshot.start);
+    setGoals(snapshot.goals);
+  };
+
+  // A single recorded change of the obstacle list
+  const editObstacles = (next: Obstacle[]) => {
+    pushUndo(currentMap());
+    setObstacles(next);
+  };
+
+  const editCostRegions = (next: CostRegion[]) => {
+    pushUndo(currentMap());
+    setCostRegions(next);
+  };
+
+  const editGoals = (next: Goal[]) => {
+    pushUndo(currentMap());
+    setGoals(next);
+  };
+
+  const handleEditBegin = () => {
+    editStartRef.current = currentMap();
+  };
+
+  const handleEditEnd = () => {
+    const before = editStartRef.current;
+    editStartRef.current = null;
+    // Clicking without moving leaves the same objects in place and records nothing
+    if (before && (before.obstacles !== obstacles || before.start !== start || before.goals !== goals)) {
+      pushUndo(before);
+    }
+    // A dragged obstacle is replanned for once, at the position it was dropped
+    if (before && before.obstacles !== obstacles) obstaclesChangedRef.current(obstacles);
+  };
+
+  const handleUndo = () => {
+    if (undoStack.length === 0) return;
+    setRedoStack([...redoStack, currentMap()]);
+    setUndoStack(undoStack.slice(0, -1));
+    restoreMap(undoStack[undoStack.length - 1]);
+  };
+
+  const handleRedo = () => {
+    if (redoStack.length === 0) return;
+    setUndoStack([...undoStack, currentMap()]);
+    setRedoStack(redoStack.slice(0, -1));
+    restoreMap(redoStack[redoStack.length - 1]);
+  };
+
   const handleClearObstacles = () => {
-    setObstacles([]);
+    editObstacles([]);
   };
 
-  const handleRemoveObstacle = (index: number) => {
-    const newObs = [...obstacles];
-    newObs.splice(index, 1);
-    setObstacles(newObs);
+  const loadPreset = (type: PresetType) => {
+    resetSimulation();
+    editObstacles(createPreset(type, world.width, world.height));
+  };
+
+  // Start and goals are pulled inside the new bounds; obstacles outside them stay put
+  const resizeWorld = (width: number, height: number) => {
+    const clamp = (p: Point): Point => ({ x: Math.min(p.x, width), y: Math.min(p.y, height) });
+    setWorld({ width, height });
+    setWorldDraft({ width, height });
+    setStart(clamp(start));
+    setGoals(goals.map(g => moveGoal(g, clamp(g))));
   };
 
-  const loadPreset = (type: 'default' | 'maze' | 'narrow') => {
+  // The world takes the size of the bitmap, within the bounds a scene file allows; cells
+  // outside a small map are free
+  const applyOccupancy = (grid: OccupancyGrid) => {
+    const side = (cells: number) => Math.min(MAX_WORLD, Math.max(MIN_WORLD, Math.round(cells * grid.resolution)));
+    setOccupancy(grid);
+    resizeWorld(side(grid.cols), side(grid.rows));
+  };
+
+  const worldDraftValid = [worldDraft.width, worldDraft.height].every(v => Number.isFinite(v) && v >= MIN_WORLD && v <= MAX_WORLD);
+
+  const handleLoadMap = async (file: File) => {
+    try {
+      const image = await decodeMapImage(file);
+      resetSimulation();
+      setMapImage(image);
+      applyOccupancy(buildOccupancyGrid(image, mapOptions));
+      setMapError(null);
+    } catch (e) {
+      setMapError(`Could not load ${file.name}: ${(e as Error).message}`);
+    }
+  };
+
+  const updateMapOptions = (patch: Partial<OccupancyOptions>) => {
+    const next = { ...mapOptions, ...patch };
+    setMapOptions(next);
+    if (mapImage) {
+      applyOccupancy(buildOccupancyGrid(mapImage, next));
+    } else if (occupancy) {
+      applyOccupancy({ ...occupancy, resolution: next.resolution });
+    }
+  };
+
+  const handleClearMap = () => {
+    setMapImage(null);
+    setOccupancy(null);
+    setMapError(null);
+  };
+
+  const initRun = () => {
+    const solver = solverRef.current;
+    if (!solver || solver.hasRun) return;
+    const runSeed = seedLocked ? seed : randomSeed();
+    setSeed(runSeed);
+    solver.init({ width: world.width, height: world.height, start, goals, obstacles, occupancy, costRegions, params: currentParams(), algorithm, seed: runSeed });
+    if (comparison) {
+      compareSolverRef.current?.init({
+        width: world.width, height: world.height, start, goals, obstacles, occupancy, costRegions,
+        params: compareParams(), algorithm: comparison.algorithm, seed: runSeed,
+      });
+    }
+  };
+
+  const currentParams = (): SolverParams => {
+    return { stepSize, maxIterations, goalBias, searchRadius, spatialIndex, collisionMode, informed, radiusMode, gamma, kScale, motionModel, turningRadius, startHeading };
+  };
+
+  // Parameters of the comparison run: the main ones with its overrides applied
+  const compareParams = (): SolverParams => {
+    return { ...currentParams(), ...comparison?.overrides };
+  };
+
+  const mainFinished = (): boolean => {
+    return runFinished(algorithm, found, liveNodeCount(nodesRef.current), maxIterations);
+  };
+
+  // Reads the ref so the play loop sees the latest comparison status; true when not comparing
+  const compareFinished = (): boolean => {
+    const status = compareRunRef.current.status;
+    if (!comparison || !status) return !comparison;
+    return runFinished(comparison.algorithm, status.path.length > 0, status.nodeCount, compareParams().maxIterations);
+  };
+
+  const toggleComparison = () => {
+    setComparison(comparison ? null : { algorithm: algorithm === 'RRT*' ? 'RRT' : 'RRT*', overrides: {} });
+  };
+
+  const updateComparison = (patch: Partial<ComparisonConfig>) => {
+    if (comparison) setComparison({ ...comparison, ...patch });
+  };
+
+  const overrideCompareParams = (patch: Partial<SolverParams>) => {
+    if (comparison) setComparison({ ...comparison, overrides: { ...comparison.overrides, ...patch } });
+  };
+
+  // --- Scenes (import / export / share link) ---
+
+  const buildScene = (): Scene => {
+    return {
+      version: SCENE_VERSION,
+      width: world.width,
+      height: world.height,
+      start,
+      goals,
+      obstacles,
+      occupancy,
+      costRegions,
+      algorithm,
+      params: currentParams(),
+      seed,
+    };
+  };
+
+  // Only uses state setters, so it is safe to call from effects registered once
+  const applyScene = (scene: Scene) => {
     resetSimulation();
-    let newObs: Obstacle[] = [];
-    if (type === 'default') {
-        newObs = [
-            { x: 300, y: 150, w: 50, h: 300 },
-            { x: 500, y: 150, w: 50, h: 300 },
-            { x: 350, y: 280, w: 150, h: 50 }
-        ];
-    } else if (type === 'narrow') {
-        const gap = 40;
-        const midY = HEIGHT / 2;
-        newObs = [
-             { x: 200, y: 0, w: 50, h: midY - gap },
-             { x: 200, y: midY + gap, w: 50, h: midY - gap },
-             { x: 500, y: 0, w: 50, h: midY - gap - 50 },
-             { x: 500, y: midY + gap - 50, w: 50, h: midY - gap + 50 },
-        ];
-    } else if (type === 'maze') {
-        for(let i=0; i<25; i++) {
-            newObs.push({
-                x: Math.random() * (WIDTH - 150) + 75,
-                y: Math.random() * (HEIGHT - 100) + 50,
-                w: Math.random() * 80 + 20,
-                h: Math.random() * 80 + 20
-            });
-        }
+    setWorld({ width: scene.width, height: scene.height });
+    setWorldDraft({ width: scene.width, height: scene.height });
+    setStart(scene.start);
+    setGoals(scene.goals);
+    setObstacles(scene.obstacles);
+    setCostRegions(scene.costRegions);
+    // History entries belong to the previous scene
+    setUndoStack([]);
+    setRedoStack([]);
+    setMapImage(null);
+    setOccupancy(scene.occupancy);
+    if (scene.occupancy) setMapOptions({ ...mapOptions, resolution: scene.occupancy.resolution });
+    setAlgorithm(scene.algorithm);
+    setStepSize(scene.params.stepSize);
+    setMaxIterations(scene.params.maxIterations);
+    setGoalBias(scene.params.goalBias);
+    setSearchRadius(scene.params.searchRadius);
+    setSpatialIndex(scene.params.spatialIndex);
+    setCollisionMode(scene.params.collisionMode);
+    setInformed(scene.params.informed);
+    setRadiusMode(scene.params.radiusMode);
+    setGamma(scene.params.gamma);
+    setKScale(scene.params.kScale);
+    setMotionModel(scene.params.motionModel);
+    setTurningRadius(scene.params.turningRadius);
+    setStartHeading(scene.params.startHeading);
+    // A shared scene should replay exactly, so keep its seed
+    setSeed(scene.seed);
+    setSeedLocked(true);
+  };
+
+  const handleExportScene = () => {
+    downloadBlob(new Blob([sceneToJson(buildScene())], { type: 'application/json' }), `scene-${seed}.json`);
+  };
+
+  const handleImportScene = async (file: File) => {
+    try {
+      applyScene(sceneFromJson(await file.text()));
+      setSceneMessage({ error: false, text: `Loaded ${file.name}` });
+    } catch (e) {
+      setSceneMessage({ error: true, text: `Could not load ${file.name}: ${(e as Error).message}` });
     }
-    setObstacles(newObs);
   };
 
-  const initTree = () => {
-    if (!treeRef.current) {
-      const params: SolverParams = { stepSize, maxIterations, goalBias, searchRadius };
-      treeRef.current = new RRTTree(WIDTH, HEIGHT, start, goal, obstacles, params, algorithm);
-      setNodes(treeRef.current.nodes);
+  const handleShareScene = async () => {
+    const hash = await encodeSceneHash(buildScene());
+    history.replaceState(null, '', hash);
+    try {
+      await navigator.clipboard.writeText(location.href);
+      setSceneMessage({ error: false, text: 'Link copied to clipboard' });
+    } catch {
+      setSceneMessage({ error: false, text: 'Link is in the address bar' });
     }
   };
 
-  // Sync state from tree to React state for rendering
-  const syncTreeState = (tree: RRTTree) => {
-      setNodes([...tree.nodes]);
-      setIteration(tree.nodes.length);
-      setCurrentCodeStep(tree.microState);
-      setTempSample(tree.tempSample);
-      setTempNewPoint(tree.tempNewPoint);
-      setTempNearest(tree.tempNearestNode);
+  // Mirror solver status into React state for rendering
+  const applyStatus = (status: SolverStatus) => {
+      setCounters(status.counters);
+      setTimelineLength(status.iteration);
+      setSolveMs(status.solveMs);
+      setQueryStats(status.queryStats);
+      setCollisionStats(status.collisionStats);
+      setCurrentCodeStep(status.microState);
+      setActiveTree(status.activeTree);
+      setInformedRegion(status.informedEllipse);
+      setRewireRadius(status.rewireRadius);
+      setRewireK(status.rewireK);
+      setTempSample(status.tempSample);
+      setTempNewPoint(status.tempNewPoint);
+      setTempNearest(status.tempNearest);
       
-      const currentPath = tree.getPath();
-      if (currentPath.length > 0) {
-         setPath(currentPath);
-         if (!found) {
-            setFound(true);
-            if(algorithm === 'RRT') setIsRunning(false);
-         }
-      }
-      if (tree.nodes.length >= maxIterations) {
+      // Replanning can take the path away again
+      setPath(status.path);
+      setPathCost(status.pathCost);
+      setFound(status.path.length > 0);
+      // When comparing, keep playing until the other run is done too
+      if (runFinished(algorithm, status.path.length > 0, status.nodeCount, maxIterations) && compareFinished()) {
         setIsRunning(false);
       }
   };
 
-  const step = () => {
-    if (!treeRef.current) initTree();
-    const tree = treeRef.current!;
-    
-    let changed = false;
-
-    // If code view is open, we run slowly (or just normal speed but highlighting might blur)
-    // Actually, if running automatically, we probably want to use the bulk step for performance,
-    // OR if we want to visualize "execution", we stepMicro.
-    // Let's use stepMicro but multiple times if not debugging?
-    // No, if the user requested "execution steps", let's make the running speed decent but using micro steps if Code View is open might be too fast to see.
-    // Let's assume: If Code View is OPEN, we slow down the auto-play? Or we just flash the lines.
-    // Simpler: If Code View is OPEN, "Step" does 1 line. "Play" does full speed (iterations).
-    
-    // For "Play" loop:
-    const stepsPerFrame = isCodeOpen ? 1 : 5; 
-    
-    for(let i=0; i<stepsPerFrame; i++) {
-        // If code open, maybe we just run one micro step per frame?
-        if (isCodeOpen) {
-            // Run one microstep
-             tree.stepMicro();
-             changed = true;
-        } else {
-            // Run full iteration
-            if(tree.step()) changed = true;
-        }
-    }
+  const applyDiff = (diff: TreeDiff) => {
+      const mirror = nodesRef.current;
+      if (diff.offset !== mirror.length) {
+        // Out of sync (should not happen); fall back to a full snapshot
+        solverRef.current?.requestSnapshot();
+        return false;
+      }
+      timelineRef.current.push(...diff.events);
+      if (diff.added.length === 0 && diff.changed.length === 0) return true;
+      patchNodes(mirror, diff);
+      setTreeRevision(r => r + 1);
+      return true;
+  };
 
-    if (changed) {
-      syncTreeState(tree);
+  solverMessageRef.current = (msg: SolverResponse) => {
+      if (msg.type === 'diff') {
+        if (applyDiff(msg.diff)) applyStatus(msg.status);
+      } else {
+        nodesRef.current = msg.snapshot.nodes;
+        timelineRef.current = [...msg.snapshot.events];
+        setTreeRevision(r => r + 1);
+        applyStatus(msg.snapshot);
+      }
+  };
+
+  compareMessageRef.current = (msg: SolverResponse) => {
+      const next = applySolverResponse(compareRunRef.current, msg);
+      if (!next) {
+        compareSolverRef.current?.requestSnapshot();
+        return;
+      }
+      compareRunRef.current = next;
+      setCompareRun(next);
+      if (compareFinished() && mainFinished()) setIsRunning(false);
+  };
+
+  historyKeyRef.current = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      handleUndo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      handleRedo();
     }
   };
 
+  // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => historyKeyRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Open scenes shared by link, on load and when the hash is edited
+  useEffect(() => {
+    const loadFromHash = async () => {
+      if (!hasSceneHash(location.hash)) return;
+      try {
+        applyScene(await decodeSceneHash(location.hash));
+        setSceneMessage(null);
+      } catch (e) {
+        setSceneMessage({ error: true, text: `Could not open shared scene: ${(e as Error).message}` });
+      }
+    };
+    loadFromHash();
+    window.addEventListener('hashchange', loadFromHash);
+    return () => window.removeEventListener('hashchange', loadFromHash);
+  }, []);
+
+  useEffect(() => {
+    const solver = new SolverClient(msg => solverMessageRef.current(msg));
+    solverRef.current = solver;
+    return () => {
+      solver.terminate();
+      solverRef.current = null;
+    };
+  }, []);
+
+  const step = () => {
+    const solver = solverRef.current;
+    if (!solver) return;
+    if (!solver.hasRun) initRun();
+    const compare = comparison ? compareSolverRef.current : null;
+    // Wait for the previous batch so requests never pile up behind a slow frame
+    if (solver.pending > 0 || (compare && compare.pending > 0)) return;
+    
+    // If Code View is OPEN, "Play" advances one line of code per frame,
+    // otherwise it runs several full iterations per frame.
+    // A run that has finished waits for the other one.
+    const advance = (client: SolverClient) => (isCodeOpen ? client.micro(1) : client.step(5));
+    if (!mainFinished()) advance(solver);
+    if (compare && !compareFinished()) advance(compare);
+  };
+
   const handleStep = () => {
     if (isRunning) {
         setIsRunning(false);
         return;
     }
+    setReplayAt(null);
 
-    if (!treeRef.current) initTree();
-    const tree = treeRef.current!;
+    const solver = solverRef.current;
+    if (!solver) return;
+    if (!solver.hasRun) initRun();
+    const compare = comparison ? compareSolverRef.current : null;
     
-    if (isCodeOpen) {
-        // Step one line of code
-        tree.stepMicro();
-    } else {
-        // Step one full iteration
-        tree.step();
-    }
-    syncTreeState(tree);
+    // One line of code, or one full iteration, in each run that is still going
+    const advance = (client: SolverClient) => (isCodeOpen ? client.micro(1) : client.step(1));
+    if (!mainFinished()) advance(solver);
+    if (compare && !compareFinished()) advance(compare);
+  };
+
+  const handleNewSeed = () => {
+    resetSimulation();
+    setSeed(randomSeed());
+  };
+
+  const handleSeedInput = (value: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) return;
+    resetSimulation();
+    setSeed(parsed >>> 0);
+    setSeedLocked(true);
   };
 
   const togglePlay = () => {
     if (isRunning) {
       setIsRunning(false);
     } else {
-      if (nodes.length >= maxIterations) {
+      setReplayAt(null);
+      if (mainFinished() && compareFinished()) {
           resetSimulation();
-      } else if (found) {
-          if (algorithm === 'RRT') {
-             resetSimulation();
-          }
       }
       setIsRunning(true);
     }
@@ -228,39 +626,184 @@ function App() {
     return () => {
         if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [isRunning, algorithm, obstacles, start, goal, found, isCodeOpen]); 
+  }, [isRunning, algorithm, obstacles, start, goals, found, isCodeOpen, comparison]); 
 
   useEffect(() => {
     resetSimulation();
-  }, [algorithm, stepSize, goalBias, searchRadius, obstacles, start, goal, resetSimulation]);
+  }, [algorithm, stepSize, goalBias, searchRadius, spatialIndex, collisionMode, informed, radiusMode, gamma, kScale, motionModel, turningRadius, startHeading, occupancy, costRegions, start, goals, world, comparison, resetSimulation]);
+
+  // Obstacle edits restart the run, unless replanning is on and there is a tree to repair.
+  // Mid-drag positions are skipped: only where the obstacle ends up may cut edges.
+  obstaclesChangedRef.current = (next: Obstacle[]) => {
+    const solver = solverRef.current;
+    if (replanning && solver?.hasRun) {
+      if (editStartRef.current) return;
+      solver.replan(next);
+      compareSolverRef.current?.replan(next);
+    } else {
+      resetSimulation();
+    }
+  };
+
+  useEffect(() => {
+    obstaclesChangedRef.current(obstacles);
+  }, [obstacles]);
+
+  // The comparison solver only exists while comparing
+  const comparing = comparison !== null;
+  useEffect(() => {
+    if (!comparing) return;
+    const solver = new SolverClient(msg => compareMessageRef.current(msg));
+    compareSolverRef.current = solver;
+    return () => {
+      solver.terminate();
+      compareSolverRef.current = null;
+    };
+  }, [comparing]);
 
 
   const handleExplain = async () => {
     setLoadingExplanation(true);
     const topic = algorithm === 'RRT' 
         ? "Rapidly-exploring Random Trees (RRT) algorithm" 
-        : "RRT* (Optimal RRT) algorithm";
+        : algorithm === 'RRT-Connect'
+            ? "RRT-Connect (bidirectional RRT) algorithm"
+            : "RRT* (Optimal RRT) algorithm";
     const text = await getExplanation(topic);
     setExplanation(text);
     setLoadingExplanation(false);
   };
 
-  const pathCost = path.length > 0 && treeRef.current ? treeRef.current.nodes[path[0]].cost : null;
-  
+  // Replay is recomputed from the event log; the run is paused while scrubbing
+  const replayFrame = useMemo(() => {
+    if (replayAt === null) return null;
+    return replayTimeline(timelineRef.current, replayAt, { algorithm, goals, costRegions });
+  }, [replayAt, timelineLength, algorithm, goals, costRegions]);
+
+  const solutionTicks = useMemo(() => solutionMarkers(timelineRef.current), [timelineLength]);
+  const compareSolutions = useMemo(() => solutionMarkers(compareRun.events), [compareRun]);
+
+  const handleSeek = (iteration: number | null) => {
+    setIsRunning(false);
+    setReplayAt(iteration);
+  };
+
+  // What the canvas, stats and code viewer show: the replayed moment or the live run
+  const view = replayFrame ?? {
+    nodes: nodesRef.current, treeRevision, path, pathCost, microState: currentCodeStep, tempSample, tempNewPoint, tempNearest, activeTree,
+  };
+
+  // Straight-line shortcuts and smoothing would break a car path's turning radius
+  const carSteering = steersCar(algorithm, motionModel);
+
+  const processedPath = useMemo(() => {
+    if (view.path.length < 2 || carSteering) return null;
+    if (pathProcessing.shortcut === 'none' && pathProcessing.smoothing === 'none') return null;
+    const raw = view.path.map(id => view.nodes[id]);
+    return processPath(raw, obstacles, occupancy, collisionMode, costRegions, pathProcessing, createRng(seed));
+  }, [view.path, view.nodes, obstacles, occupancy, collisionMode, costRegions, pathProcessing, seed, carSteering]);
+
+  const processedCost = processedPath ? polylineCost(processedPath, costRegions) : null;
+
+  // The comparison run, replayed at the same iteration while scrubbing
+  const compareStatus = compareRun.status;
+  const compareReplay = useMemo(() => {
+    if (!comparison || replayAt === null) return null;
+    return replayTimeline(compareRun.events, replayAt, { algorithm: comparison.algorithm, goals, costRegions });
+  }, [comparison, replayAt, compareRun, goals, costRegions]);
+
+  const compareView = compareReplay ?? {
+    nodes: compareRun.nodes,
+    treeRevision: compareRun.revision,
+    path: compareStatus?.path ?? [],
+    pathCost: compareStatus?.pathCost ?? null,
+    tempSample: compareStatus?.tempSample ?? null,
+    tempNewPoint: compareStatus?.tempNewPoint ?? null,
+    tempNearest: compareStatus?.tempNearest ?? null,
+  };
+
+  const compareCollisionMode = comparison ? compareParams().collisionMode : collisionMode;
+  const compareProcessedPath = useMemo(() => {
+    if (!comparison || compareView.path.length < 2 || steersCar(comparison.algorithm, motionModel)) return null;
+    if (pathProcessing.shortcut === 'none' && pathProcessing.smoothing === 'none') return null;
+    const raw = compareView.path.map(id => compareView.nodes[id]);
+    return processPath(raw, obstacles, occupancy, compareCollisionMode, costRegions, pathProcessing, createRng(seed));
+  }, [comparison, compareView.path, compareView.nodes, obstacles, occupancy, compareCollisionMode, costRegions, pathProcessing, seed, motionModel]);
+
+  // Both runs share the scrubber, which spans the longer of the two
+  const timelineTotal = Math.max(timelineLength, comparison ? compareStatus?.iteration ?? 0 : 0);
+
+  const convergenceSeries: ConvergenceSeries[] = [
+    { label: comparison ? `A · ${algorithm}` : algorithm, color: '#10b981', points: solutionTicks, iterations: timelineLength, solveMs },
+  ];
+  if (comparison) {
+    convergenceSeries.push({
+      label: `B · ${comparison.algorithm}`,
+      color: '#f59e0b',
+      points: compareSolutions,
+      iterations: compareStatus?.iteration ?? 0,
+      solveMs: compareStatus?.solveMs ?? 0,
+    });
+  }
+
+  const updatePathProcessing = (patch: Partial<PathProcessingOptions>) => {
+    setPathProcessing({ ...pathProcessing, ...patch });
+  };
+
+  const allFinished = mainFinished() && compareFinished();
+
   const getPlayButtonText = () => {
     if (isRunning) return "Pause";
     if (found && algorithm === 'RRT*') return "Optimize";
-    if (found || nodes.length >= maxIterations) return "Restart";
+    if (allFinished) return "Restart";
     return "Start";
   };
 
   const getPlayButtonIcon = () => {
      if (isRunning) return <Pause size={16} />;
      if (found && algorithm === 'RRT*') return <Zap size={16} />;
-     if (found || nodes.length >= maxIterations) return <RotateCcw size={16} />;
+     if (allFinished) return <RotateCcw size={16} />;
      return <Play size={16} />;
   };
 
+  // Both runs of the side-by-side view draw over the same editable scene
+  const renderCanvas = (
+    // A replayed frame is a fresh array each time and needs no revision
+    run: { nodes: Node[]; treeRevision?: number; path: number[]; tempSample: Point | null; tempNewPoint: EdgeEnd | null; tempNearest: Node | null },
+    runAlgorithm: AlgorithmType,
+    informedEllipse: Ellipse | null,
+    processed: Point[] | null,
+  ) => (
+    <Canvas 
+        nodes={run.nodes}
+        treeRevision={run.treeRevision ?? 0}
+        path={run.path}
+        obstacles={obstacles}
+        occupancy={occupancy}
+        costRegions={costRegions}
+        costMultiplier={costMultiplier}
+        start={start}
+        goals={goals}
+        width={world.width}
+        height={world.height}
+        algorithm={runAlgorithm}
+        onObstaclesChange={editObstacles}
+        onCostRegionsChange={editCostRegions}
+        onGoalsChange={editGoals}
+        onObstaclesDrag={setObstacles}
+        onStartMove={setStart}
+        onGoalMove={(index, p) => setGoals(goals.map((g, i) => (i === index ? moveGoal(g, p) : g)))}
+        onEditBegin={handleEditBegin}
+        onEditEnd={handleEditEnd}
+        isRunning={isRunning}
+        tempSample={run.tempSample}
+        tempNewPoint={run.tempNewPoint}
+        tempNearest={run.tempNearest}
+        informedEllipse={informedEllipse}
+        processedPath={processed}
+    />
+  );
+
   return (
     <div className="flex h-screen w-full bg-slate-950 text-slate-200">
       
@@ -292,12 +835,21 @@ function App() {
               >
                 RRT*
               </button>
+              <button
+                onClick={() => setAlgorithm('RRT-Connect')}
+                className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-colors ${algorithm === 'RRT-Connect' ? 'bg-violet-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'}`}
+              >
+                Connect
+              </button>
             </div>
             
              {/* Visual Difference Guide */}
-            <div className={`p-3 rounded-lg border text-xs leading-relaxed transition-colors ${algorithm === 'RRT' ? 'bg-blue-900/20 border-blue-800 text-blue-200' : 'bg-emerald-900/20 border-emerald-800 text-emerald-200'}`}>
+            <div className={`p-3 rounded-lg border text-xs leading-relaxed transition-colors ${
+                algorithm === 'RRT' ? 'bg-blue-900/20 border-blue-800 text-blue-200'
+                : algorithm === 'RRT-Connect' ? 'bg-violet-900/20 border-violet-800 text-violet-200'
+                : 'bg-emerald-900/20 border-emerald-800 text-emerald-200'}`}>
                 <div className="font-bold mb-1 flex items-center gap-1">
-                    {algorithm === 'RRT' ? <ArrowRight size={12}/> : <RotateCcw size={12}/>}
+                    {algorithm === 'RRT' ? <ArrowRight size={12}/> : algorithm === 'RRT-Connect' ? <ArrowLeftRight size={12}/> : <RotateCcw size={12}/>}
                     What to watch for:
                 </div>
                 {algorithm === 'RRT' ? (
@@ -306,6 +858,12 @@ function App() {
                         <li>Path is jagged and <b>not optimized</b>.</li>
                         <li>Stops immediately when Goal is reached.</li>
                     </ul>
+                ) : algorithm === 'RRT-Connect' ? (
+                    <ul className="list-disc list-inside space-y-1 opacity-90">
+                        <li><span className="text-blue-300">Start tree</span> and <span className="text-rose-300">goal tree</span> grow towards each other.</li>
+                        <li>Each new node triggers a greedy <b>connect</b> from the other tree.</li>
+                        <li>Usually much faster than RRT, but the path is <b>not optimized</b>.</li>
+                    </ul>
                 ) : (
                     <ul className="list-disc list-inside space-y-1 opacity-90">
                         <li>Stops on first path found (like RRT).</li>
@@ -320,7 +878,23 @@ function App() {
 
           {/* Map Controls */}
           <div className="space-y-3">
-             <label className="text-xs font-semibold uppercase text-slate-400 tracking-wider">Map Presets</label>
+             <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase text-slate-400 tracking-wider">Map Presets</label>
+                <div className="flex gap-1">
+                   <button
+                      onClick={handleUndo} disabled={undoStack.length === 0} title="Undo (Ctrl+Z)"
+                      className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-1 rounded transition-colors disabled:opacity-40"
+                   >
+                      <Undo2 size={12}/>
+                   </button>
+                   <button
+                      onClick={handleRedo} disabled={redoStack.length === 0} title="Redo (Ctrl+Shift+Z)"
+                      className="bg-slate-800 hover:bg-slate-700 text-slate-300 p-1 rounded transition-colors disabled:opacity-40"
+                   >
+                      <Redo2 size={12}/>
+                   </button>
+                </div>
+             </div>
              <div className="grid grid-cols-2 gap-2">
                 <button onClick={() => loadPreset('default')} className="bg-slate-800 hover:bg-slate-700 p-2 rounded text-xs text-slate-300 transition-colors flex items-center justify-center gap-1">
                     <Square size={12}/> Default
@@ -336,8 +910,218 @@ function App() {
                 </button>
              </div>
              <p className="text-[10px] text-slate-500 mt-1">
-                 Tip: Drag on canvas to draw custom walls. Right-click to delete.
+                 Tip: Pick a shape in the canvas toolbar. Drag to draw boxes and circles, click to place polygon vertices. Right-click to delete. The arrow tool selects, moves and resizes obstacles.
              </p>
+             <label className="flex items-center justify-between text-xs cursor-pointer">
+               <span className="text-slate-400">Replan on obstacle edits</span>
+               <input
+                 type="checkbox" checked={replanning}
+                 onChange={(e) => setReplanning(e.target.checked)}
+                 className="accent-blue-500"
+               />
+             </label>
+             {replanning && (
+               <p className="text-[10px] text-slate-500">
+                 Adding or moving an obstacle cuts only the edges it blocks. Orphaned branches reattach to the tree where they can, the rest is pruned, and the run carries on. Moving start or goal still restarts.
+               </p>
+             )}
+          </div>
+
+          {/* Goals */}
+          <div className="space-y-3">
+             <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase text-slate-400 tracking-wider">Goals</label>
+                <button
+                  onClick={() => editGoals([...goals, circleGoal({ x: world.width / 2, y: world.height / 2 })])}
+                  className="text-[10px] bg-slate-800 hover:bg-slate-700 text-slate-300 px-2 py-1 rounded transition-colors"
+                >
+                   Add Goal
+                </button>
+             </div>
+             {goals.map((g, i) => (
+               <div key={i} className="space-y-1">
+                 <div className="flex justify-between items-center text-xs">
+                   <span className="text-slate-400">G{i + 1} {g.region.kind === 'circle' ? 'Radius' : 'Rectangle'}</span>
+                   <span className="flex items-center gap-2">
+                     <span className="text-slate-200">
+                       {g.region.kind === 'circle' ? `${g.region.r.toFixed(0)}px` : `${g.region.w.toFixed(0)}×${g.region.h.toFixed(0)}px`}
+                     </span>
+                     {goals.length > 1 && (
+                       <button onClick={() => editGoals(goals.filter((_, k) => k !== i))} title={`Remove G${i + 1}`} className="text-rose-400 hover:text-rose-300">
+                         <Trash2 size={10} />
+                       </button>
+                     )}
+                   </span>
+                 </div>
+                 {g.region.kind === 'circle' && (
+                   <input
+                     type="range" min={MIN_GOAL_RADIUS} max={MAX_GOAL_RADIUS} step="1" value={g.region.r}
+                     onPointerDown={handleEditBegin}
+                     onPointerUp={handleEditEnd}
+                     onChange={(e) => setGoals(goals.map((other, k) => (k === i ? circleGoal(other, Number(e.target.value)) : other)))}
+                     className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-red-500"
+                   />
+                 )}
+               </div>
+             ))}
+             <p className="text-[10px] text-slate-500">
+                 A node that enters a goal region tries a direct, collision-checked edge to the goal point; car modes stop anywhere inside. With several goals the cheapest one reached wins. Draw circles or rectangles on the goal layer (flag icon) to add more.
+             </p>
+          </div>
+
+          {/* Terrain Costs */}
+          <div className="space-y-3">
+             <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase text-slate-400 tracking-wider">Terrain Costs</label>
+                {costRegions.length > 0 && (
+                  <button onClick={() => editCostRegions([])} className="text-[10px] bg-slate-800 hover:bg-rose-900/30 text-rose-400 px-2 py-1 rounded transition-colors">
+                     Clear {costRegions.length}
+                  </button>
+                )}
+             </div>
+             <div className="space-y-1">
+               <div className="flex justify-between text-xs">
+                 <span className="text-slate-400">Cost Multiplier</span>
+                 <span className={costMultiplier >= 1 ? 'text-amber-400' : 'text-cyan-400'}>×{costMultiplier}</span>
+               </div>
+               <input
+                 type="range" min={MIN_COST_MULTIPLIER} max={MAX_COST_MULTIPLIER} step="0.1" value={costMultiplier}
+                 onChange={(e) => setCostMultiplier(Number(e.target.value))}
+                 className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+               />
+             </div>
+             <p className="text-[10px] text-slate-500">
+                 Switch the canvas toolbar to the terrain layer (mountain icon) and draw zones: an edge costs its length times the multiplier of the terrain it crosses. Above 1 is mud or grass, below 1 a preferred lane.
+             </p>
+          </div>
+
+          {/* World Size */}
+          <div className="space-y-3">
+             <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase text-slate-400 tracking-wider">World Size</label>
+                <button
+                  onClick={() => resizeWorld(worldDraft.width, worldDraft.height)}
+                  disabled={!!occupancy || !worldDraftValid || (worldDraft.width === world.width && worldDraft.height === world.height)}
+                  className="text-[10px] bg-slate-800 hover:bg-slate-700 text-slate-300 px-2 py-1 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                   Resize
+                </button>
+             </div>
+             <div className="flex items-center gap-2 text-xs">
+               {(['width', 'height'] as const).map((side, i) => (
+                 <React.Fragment key={side}>
+                   {i === 1 && <span className="text-slate-500">×</span>}
+                   <input
+                     type="number" min={MIN_WORLD} max={MAX_WORLD} step="1" value={worldDraft[side]} disabled={!!occupancy}
+                     onChange={(e) => setWorldDraft({ ...worldDraft, [side]: Number(e.target.value) })}
+                     onKeyDown={(e) => {
+                       if (e.key === 'Enter' && worldDraftValid) resizeWorld(worldDraft.width, worldDraft.height);
+                     }}
+                     className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 disabled:opacity-50"
+                   />
+                 </React.Fragment>
+               ))}
+               <span className="text-slate-500">px</span>
+             </div>
+             <p className="text-[10px] text-slate-500">
+                 {occupancy
+                   ? `Set by the bitmap map (kept within ${MIN_WORLD} to ${MAX_WORLD} px per side).`
+                   : `${MIN_WORLD} to ${MAX_WORLD} px per side. The canvas zooms (mouse wheel) and pans (hand tool or middle drag) over any size.`}
+             </p>
+          </div>
+
+          {/* Bitmap Map */}
+          <div className="space-y-3">
+             <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase text-slate-400 tracking-wider">Bitmap Map</label>
+                <div className="flex gap-1">
+                   <button onClick={() => mapInputRef.current?.click()} className="text-[10px] bg-slate-800 hover:bg-slate-700 text-slate-300 px-2 py-1 rounded transition-colors flex items-center gap-1">
+                      <ImageIcon size={10}/> Load PNG / PGM
+                   </button>
+                   {occupancy && (
+                     <button onClick={handleClearMap} className="text-[10px] bg-slate-800 hover:bg-rose-900/30 text-rose-400 px-2 py-1 rounded transition-colors">
+                        Remove
+                     </button>
+                   )}
+                </div>
+             </div>
+             <input
+                ref={mapInputRef} type="file" accept=".png,.pgm,.jpg,.jpeg,.bmp,image/*" className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleLoadMap(file);
+                  e.target.value = '';
+                }}
+             />
+             {mapError && <p className="text-[10px] text-rose-400 break-words">{mapError}</p>}
+             {occupancy && (
+               <div className="space-y-3">
+                 <p className="text-[10px] text-slate-500">
+                   {occupancy.cols}×{occupancy.rows} cells → {world.width}×{world.height}px world
+                 </p>
+                 <div className={`space-y-1 ${mapImage ? '' : 'opacity-50 pointer-events-none'}`}>
+                   <div className="flex justify-between text-xs">
+                     <span className="text-slate-400">Occupied Threshold</span>
+                     <span className="text-slate-200">{mapOptions.threshold.toFixed(2)}</span>
+                   </div>
+                   <input
+                     type="range" min="0" max="0.99" step="0.01" value={mapOptions.threshold}
+                     onChange={(e) => updateMapOptions({ threshold: Number(e.target.value) })}
+                     className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                   />
+                   <label className="flex items-center justify-between text-xs cursor-pointer pt-1">
+                     <span className="text-slate-400">Invert (light = occupied)</span>
+                     <input
+                       type="checkbox" checked={mapOptions.invert}
+                       onChange={(e) => updateMapOptions({ invert: e.target.checked })}
+                       className="accent-blue-500"
+                     />
+                   </label>
+                 </div>
+                 <div className="space-y-1">
+                   <div className="flex justify-between text-xs">
+                     <span className="text-slate-400">Resolution</span>
+                     <span className="text-slate-200">{mapOptions.resolution}px / cell</span>
+                   </div>
+                   <input
+                     type="range" min="0.25" max="8" step="0.25" value={mapOptions.resolution}
+                     onChange={(e) => updateMapOptions({ resolution: Number(e.target.value) })}
+                     className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                   />
+                 </div>
+               </div>
+             )}
+          </div>
+
+          <hr className="border-slate-800" />
+
+          {/* Scene Import / Export */}
+          <div className="space-y-3">
+             <label className="text-xs font-semibold uppercase text-slate-400 tracking-wider">Scene</label>
+             <div className="grid grid-cols-3 gap-2">
+                <button onClick={() => fileInputRef.current?.click()} className="bg-slate-800 hover:bg-slate-700 p-2 rounded text-xs text-slate-300 transition-colors flex items-center justify-center gap-1">
+                    <Upload size={12}/> Import
+                </button>
+                <button onClick={handleExportScene} className="bg-slate-800 hover:bg-slate-700 p-2 rounded text-xs text-slate-300 transition-colors flex items-center justify-center gap-1">
+                    <Download size={12}/> Export
+                </button>
+                <button onClick={handleShareScene} className="bg-slate-800 hover:bg-slate-700 p-2 rounded text-xs text-slate-300 transition-colors flex items-center justify-center gap-1">
+                    <Link size={12}/> Share
+                </button>
+             </div>
+             <input
+                ref={fileInputRef} type="file" accept=".json,application/json" className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportScene(file);
+                  e.target.value = '';
+                }}
+             />
+             {sceneMessage && (
+               <p className={`text-[10px] break-words ${sceneMessage.error ? 'text-rose-400' : 'text-slate-500'}`}>
+                 {sceneMessage.text}
+               </p>
+             )}
           </div>
 
           <hr className="border-slate-800" />
@@ -364,7 +1148,7 @@ function App() {
                 <span className="text-slate-200">{maxIterations}</span>
               </div>
               <input 
-                type="range" min="500" max="5000" step="500" value={maxIterations} 
+                type="range" min="500" max="25000" step="500" value={maxIterations} 
                 onChange={(e) => setMaxIterations(Number(e.target.value))}
                 className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
               />
@@ -390,12 +1174,332 @@ function App() {
                <input 
                  type="range" min="20" max="150" step="10" value={searchRadius} 
                  onChange={(e) => setSearchRadius(Number(e.target.value))}
-                 disabled={algorithm === 'RRT'}
+                 disabled={algorithm !== 'RRT*' || radiusMode !== 'fixed'}
                  className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500 disabled:opacity-50"
                />
              </div>
+
+             <div className={`space-y-1 ${algorithm === 'RRT*' ? '' : 'opacity-50 pointer-events-none'}`}>
+               <div className="flex justify-between text-xs">
+                 <span className="text-slate-400">Rewire Neighborhood</span>
+               </div>
+               <div className="flex bg-slate-800 p-1 rounded-lg">
+                 {([['fixed', 'Fixed'], ['shrinking', 'γ-Shrink'], ['kNearest', 'k-Nearest']] as [RadiusMode, string][]).map(([mode, label]) => (
+                   <button
+                     key={mode}
+                     onClick={() => setRadiusMode(mode)}
+                     className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${radiusMode === mode ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+               </div>
+               {radiusMode === 'shrinking' && (
+                 <div className="space-y-1 pt-1">
+                   <div className="flex justify-between text-xs">
+                     <span className="text-slate-400">γ <span className="text-slate-600">(r = γ·√(log n / n))</span></span>
+                     <span className="text-slate-200">{gamma}</span>
+                   </div>
+                   <input
+                     type="range" min="200" max="2500" step="10" value={gamma}
+                     onChange={(e) => setGamma(Number(e.target.value))}
+                     className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                   />
+                   <p className="text-[10px] text-slate-500">
+                     γ* for an empty {world.width}×{world.height} map ≈ {optimalGamma(world.width * world.height).toFixed(0)}. Obstacles lower it.
+                   </p>
+                 </div>
+               )}
+               {radiusMode === 'kNearest' && (
+                 <div className="space-y-1 pt-1">
+                   <div className="flex justify-between text-xs">
+                     <span className="text-slate-400">k factor <span className="text-slate-600">(k = factor·log n)</span></span>
+                     <span className="text-slate-200">{kScale.toFixed(2)}</span>
+                   </div>
+                   <input
+                     type="range" min="1" max="8" step="0.01" value={kScale}
+                     onChange={(e) => setKScale(Number(e.target.value))}
+                     className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                   />
+                   <p className="text-[10px] text-slate-500">
+                     k-nearest RRT* is optimal for factor ≥ e·(1 + 1/d) ≈ {(Math.E * 1.5).toFixed(2)} in 2D.
+                   </p>
+                 </div>
+               )}
+             </div>
+
+             <label className={`flex items-center justify-between text-xs ${algorithm === 'RRT*' ? 'cursor-pointer' : 'opacity-50'}`}>
+               <span className="text-slate-400">Informed Sampling (Informed RRT*)</span>
+               <input
+                 type="checkbox" checked={informed}
+                 onChange={(e) => setInformed(e.target.checked)}
+                 disabled={algorithm !== 'RRT*'}
+                 className="accent-emerald-500"
+               />
+             </label>
+
+             <div className="space-y-1">
+               <div className="flex justify-between text-xs">
+                 <span className="text-slate-400">Neighbor Search</span>
+               </div>
+               <div className="flex bg-slate-800 p-1 rounded-lg">
+                 <button
+                   onClick={() => setSpatialIndex('linear')}
+                   className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${spatialIndex === 'linear' ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                 >
+                   Linear Scan
+                 </button>
+                 <button
+                   onClick={() => setSpatialIndex('grid')}
+                   className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${spatialIndex === 'grid' ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                 >
+                   Grid Index
+                 </button>
+               </div>
+             </div>
+
+             <div className="space-y-1">
+               <div className="flex justify-between text-xs">
+                 <span className="text-slate-400">Collision Check</span>
+               </div>
+               <div className="flex bg-slate-800 p-1 rounded-lg">
+                 <button
+                   onClick={() => setCollisionMode('exact')}
+                   className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${collisionMode === 'exact' ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                 >
+                   Exact
+                 </button>
+                 <button
+                   onClick={() => setCollisionMode('sampled')}
+                   className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${collisionMode === 'sampled' ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                 >
+                   Sampled (5px)
+                 </button>
+               </div>
+             </div>
+
+             <div className={`space-y-1 ${algorithm === 'RRT-Connect' ? 'opacity-50 pointer-events-none' : ''}`}>
+               <div className="flex justify-between text-xs">
+                 <span className="text-slate-400">Motion Model</span>
+               </div>
+               <div className="flex bg-slate-800 p-1 rounded-lg">
+                 {([['holonomic', 'Point'], ['dubins', 'Dubins'], ['reedsShepp', 'Reeds-Shepp']] as [MotionModel, string][]).map(([model, label]) => (
+                   <button
+                     key={model}
+                     onClick={() => setMotionModel(model)}
+                     className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${motionModel === model ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+               </div>
+               {algorithm === 'RRT-Connect' && (
+                 <p className="text-[10px] text-slate-500">RRT-Connect always plans for a point robot.</p>
+               )}
+               {motionModel !== 'holonomic' && (
+                 <>
+                   <div className="space-y-1 pt-1">
+                     <div className="flex justify-between text-xs">
+                       <span className="text-slate-400">Turning Radius</span>
+                       <span className="text-slate-200">{turningRadius}px</span>
+                     </div>
+                     <input
+                       type="range" min="10" max="120" step="5" value={turningRadius}
+                       onChange={(e) => setTurningRadius(Number(e.target.value))}
+                       className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                     />
+                   </div>
+                   <div className="space-y-1">
+                     <div className="flex justify-between text-xs">
+                       <span className="text-slate-400">Start Heading</span>
+                       <span className="text-slate-200">{Math.round((startHeading * 180) / Math.PI)}°</span>
+                     </div>
+                     <input
+                       type="range" min="-180" max="180" step="15" value={Math.round((startHeading * 180) / Math.PI)}
+                       onChange={(e) => setStartHeading((Number(e.target.value) * Math.PI) / 180)}
+                       className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                     />
+                     <p className="text-[10px] text-slate-500">
+                       {motionModel === 'dubins' ? 'Forward only.' : 'Forward and reverse.'} 0° faces right, angles turn clockwise.
+                     </p>
+                   </div>
+                 </>
+               )}
+             </div>
+
+             <div className="space-y-1">
+               <div className="flex justify-between text-xs">
+                 <span className="text-slate-400">Random Seed</span>
+                 <span className={seedLocked ? 'text-amber-400' : 'text-slate-500'}>{seedLocked ? 'locked' : 'new each run'}</span>
+               </div>
+               <div className="flex gap-2">
+                 <input
+                   type="number" min="0" value={seed}
+                   onChange={(e) => handleSeedInput(e.target.value)}
+                   className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200"
+                 />
+                 <button
+                   onClick={handleNewSeed}
+                   className="bg-slate-800 hover:bg-slate-700 px-2 rounded text-slate-300 transition-colors"
+                   title="New seed"
+                 >
+                   <Shuffle size={12}/>
+                 </button>
+                 <button
+                   onClick={() => setSeedLocked(!seedLocked)}
+                   className={`px-2 rounded transition-colors ${seedLocked ? 'bg-amber-500/20 text-amber-400 border border-amber-500/50' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+                   title={seedLocked ? "Unlock seed" : "Lock seed"}
+                 >
+                   {seedLocked ? <Lock size={12}/> : <LockOpen size={12}/>}
+                 </button>
+               </div>
+             </div>
+          </div>
+
+
+          {/* Side-by-Side Comparison */}
+          <div className="space-y-3 pt-4 border-t border-slate-800">
+            <label className="flex items-center justify-between cursor-pointer">
+              <span className="text-xs font-semibold uppercase text-slate-400 tracking-wider">Compare Side by Side</span>
+              <input type="checkbox" checked={comparison !== null} onChange={toggleComparison} className="accent-amber-500" />
+            </label>
+
+            {comparison && (
+              <div className="space-y-3">
+                <p className="text-[10px] text-slate-500">
+                  Run <span className="text-amber-400 font-semibold">B</span> uses the same scene and seed as the settings above (run <span className="text-blue-400 font-semibold">A</span>), with the algorithm and parameters below.
+                </p>
+                <div className="flex bg-slate-800 p-1 rounded-lg">
+                  {(['RRT', 'RRT*', 'RRT-Connect'] as AlgorithmType[]).map(alg => (
+                    <button
+                      key={alg}
+                      onClick={() => updateComparison({ algorithm: alg })}
+                      className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${comparison.algorithm === alg ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      {alg === 'RRT-Connect' ? 'Connect' : alg}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-slate-400">Step Size</span>
+                    <span className="text-slate-200">{compareParams().stepSize}px</span>
+                  </div>
+                  <input
+                    type="range" min="10" max="100" value={compareParams().stepSize}
+                    onChange={(e) => overrideCompareParams({ stepSize: Number(e.target.value) })}
+                    className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-slate-400">Goal Bias</span>
+                    <span className="text-slate-200">{(compareParams().goalBias * 100).toFixed(0)}%</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="0.5" step="0.01" value={compareParams().goalBias}
+                    onChange={(e) => overrideCompareParams({ goalBias: Number(e.target.value) })}
+                    className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-slate-400">Rewire Radius</span>
+                    <span className="text-slate-200">{compareParams().searchRadius}px</span>
+                  </div>
+                  <input
+                    type="range" min="20" max="150" step="10" value={compareParams().searchRadius}
+                    onChange={(e) => overrideCompareParams({ searchRadius: Number(e.target.value) })}
+                    disabled={comparison.algorithm !== 'RRT*' || compareParams().radiusMode !== 'fixed'}
+                    className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500 disabled:opacity-50"
+                  />
+                </div>
+
+                <label className={`flex items-center justify-between text-xs ${comparison.algorithm === 'RRT*' ? 'cursor-pointer' : 'opacity-50'}`}>
+                  <span className="text-slate-400">Informed Sampling</span>
+                  <input
+                    type="checkbox" checked={compareParams().informed}
+                    onChange={(e) => overrideCompareParams({ informed: e.target.checked })}
+                    disabled={comparison.algorithm !== 'RRT*'}
+                    className="accent-amber-500"
+                  />
+                </label>
+
+                <button
+                  onClick={() => updateComparison({ overrides: {} })}
+                  disabled={Object.keys(comparison.overrides).length === 0}
+                  className="w-full text-[10px] bg-slate-800 hover:bg-slate-700 text-slate-300 px-2 py-1 rounded transition-colors disabled:opacity-40"
+                >
+                  Match A's parameters
+                </button>
+              </div>
+            )}
           </div>
 
+          {/* Path Post-Processing */}
+          <div className={`space-y-3 pt-4 border-t border-slate-800 ${carSteering ? 'opacity-50 pointer-events-none' : ''}`}>
+            <label className="text-xs font-semibold uppercase text-slate-400 tracking-wider">Path Post-Processing</label>
+            {carSteering && (
+              <p className="text-[10px] text-slate-500">Shortcuts and smoothing ignore the turning radius, so they are off for car paths.</p>
+            )}
+
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="text-slate-400">Shortcutting</span>
+              </div>
+              <div className="flex bg-slate-800 p-1 rounded-lg">
+                {([['none', 'None'], ['greedy', 'Greedy LOS'], ['random', 'Random']] as [ShortcutMode, string][]).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => updatePathProcessing({ shortcut: mode })}
+                    className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${pathProcessing.shortcut === mode ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {pathProcessing.shortcut === 'random' && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-slate-400">Shortcut Attempts</span>
+                  <span className="text-slate-200">{pathProcessing.randomIterations}</span>
+                </div>
+                <input
+                  type="range" min="10" max="500" step="10" value={pathProcessing.randomIterations}
+                  onChange={(e) => updatePathProcessing({ randomIterations: Number(e.target.value) })}
+                  className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                />
+              </div>
+            )}
+
+            <label className="flex items-center justify-between text-xs cursor-pointer">
+              <span className="text-slate-400">Chaikin Smoothing (collision-checked)</span>
+              <input
+                type="checkbox" checked={pathProcessing.smoothing === 'chaikin'}
+                onChange={(e) => updatePathProcessing({ smoothing: e.target.checked ? 'chaikin' : 'none' })}
+                className="accent-cyan-500"
+              />
+            </label>
+
+            {pathProcessing.smoothing === 'chaikin' && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-slate-400">Smoothing Rounds</span>
+                  <span className="text-slate-200">{pathProcessing.smoothingIterations}</span>
+                </div>
+                <input
+                  type="range" min="1" max="6" step="1" value={pathProcessing.smoothingIterations}
+                  onChange={(e) => updatePathProcessing({ smoothingIterations: Number(e.target.value) })}
+                  className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                />
+              </div>
+            )}
+          </div>
 
            {/* AI Explanation Section */}
            <div className="space-y-3 pt-4 border-t border-slate-800">
@@ -431,21 +1535,35 @@ function App() {
         <div className="absolute top-0 w-full h-full bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-slate-900 via-slate-950 to-black pointer-events-none -z-10"></div>
         
         {/* Top Bar Stats */}
-        <div className="p-6 pb-2 z-10">
-             <Stats 
-                nodeCount={nodes.length} 
-                pathLength={pathCost} 
-                found={found} 
-                algorithm={algorithm}
-             />
-        </div>
+        {!comparison && (
+          <div className="p-6 pb-2 z-10">
+               <Stats 
+                  nodeCount={liveNodeCount(view.nodes)} 
+                  pathLength={view.pathCost} 
+                  found={found} 
+                  algorithm={algorithm}
+                  spatialIndex={spatialIndex}
+                  queryStats={queryStats}
+                  collisionMode={collisionMode}
+                  collisionStats={collisionStats}
+                  informedArea={informedRegion ? ellipseArea(informedRegion) : null}
+                  worldArea={world.width * world.height}
+                  rewireRadius={algorithm === 'RRT*' ? rewireRadius : null}
+                  rewireK={algorithm === 'RRT*' ? rewireK : null}
+                  processedLength={processedCost}
+                  counters={counters}
+               />
+          </div>
+        )}
 
         {/* Canvas Wrapper */}
-        <div className="flex-1 p-6 pt-0 flex flex-col min-h-0 relative">
+        <div className={`flex-1 p-6 ${comparison ? '' : 'pt-0'} flex flex-col min-h-0 relative`}>
              {/* Code Viewer Overlay */}
              <CodeViewer 
                 algorithm={algorithm}
-                currentStep={currentCodeStep}
+                currentStep={view.microState}
+                activeTree={view.activeTree}
+                informed={algorithm === 'RRT*' && informed}
                 isOpen={isCodeOpen}
                 onClose={() => setIsCodeOpen(false)}
              />
@@ -468,7 +1586,7 @@ function App() {
                     
                     <button 
                         onClick={handleStep}
-                        disabled={isRunning || (found && algorithm === 'RRT') || nodes.length >= maxIterations}
+                        disabled={isRunning || allFinished}
                         className="flex items-center gap-2 px-4 py-2 rounded-md font-medium text-sm text-slate-300 bg-slate-800 border border-slate-700 hover:bg-slate-700 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                         title={isCodeOpen ? "Step (One Line of Code)" : "Step (One Iteration)"}
                     >
@@ -486,6 +1604,17 @@ function App() {
                 </div>
 
                 <div className="flex gap-2">
+                    <button 
+                        onClick={() => setIsChartOpen(!isChartOpen)}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-md text-xs font-medium transition-colors ${
+                            isChartOpen 
+                            ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/40' 
+                            : 'bg-slate-800 text-slate-300 hover:text-white'
+                        }`}
+                    >
+                        <ChartLine size={14} />
+                        {isChartOpen ? "Hide Chart" : "Show Chart"}
+                    </button>
                     <button 
                         onClick={() => setIsCodeOpen(!isCodeOpen)}
                         className={`flex items-center gap-2 px-3 py-2 rounded-md text-xs font-medium transition-colors ${
@@ -501,24 +1630,81 @@ function App() {
              </div>
 
              <div className="flex-1 bg-slate-900 rounded-xl shadow-2xl overflow-hidden border border-slate-800 flex items-center justify-center relative">
-                <Canvas 
-                    nodes={nodes}
-                    path={path}
-                    obstacles={obstacles}
-                    start={start}
-                    goal={goal}
-                    width={WIDTH}
-                    height={HEIGHT}
-                    onObstacleAdd={(obs) => setObstacles([...obstacles, obs])}
-                    onObstacleRemove={handleRemoveObstacle}
-                    onStartMove={setStart}
-                    onGoalMove={setGoal}
-                    isRunning={isRunning}
-                    tempSample={tempSample}
-                    tempNewPoint={tempNewPoint}
-                    tempNearest={tempNearest}
-                />
+                {comparison ? (
+                  <div className="grid grid-cols-2 gap-4 w-full h-full p-4 overflow-auto">
+                    <div className="flex flex-col min-w-0">
+                      <div className="text-xs font-semibold text-slate-300 mb-2">
+                        <span className="text-blue-400">A</span> · {algorithm}
+                      </div>
+                      <Stats
+                        compact
+                        nodeCount={liveNodeCount(view.nodes)}
+                        pathLength={view.pathCost}
+                        found={found}
+                        algorithm={algorithm}
+                        spatialIndex={spatialIndex}
+                        queryStats={queryStats}
+                        collisionMode={collisionMode}
+                        collisionStats={collisionStats}
+                        informedArea={informedRegion ? ellipseArea(informedRegion) : null}
+                        worldArea={world.width * world.height}
+                        rewireRadius={algorithm === 'RRT*' ? rewireRadius : null}
+                        rewireK={algorithm === 'RRT*' ? rewireK : null}
+                        processedLength={processedCost}
+                        counters={counters}
+                      />
+                      <div className="flex justify-center">
+                        {renderCanvas(view, algorithm, replayFrame ? null : informedRegion, processedPath)}
+                      </div>
+                    </div>
+                    <div className="flex flex-col min-w-0">
+                      <div className="text-xs font-semibold text-slate-300 mb-2">
+                        <span className="text-amber-400">B</span> · {comparison.algorithm}
+                        {describeOverrides(comparison.overrides) && (
+                          <span className="font-normal text-slate-500"> ({describeOverrides(comparison.overrides)})</span>
+                        )}
+                      </div>
+                      <Stats
+                        compact
+                        nodeCount={liveNodeCount(compareView.nodes)}
+                        pathLength={compareView.pathCost}
+                        found={(compareStatus?.path.length ?? 0) > 0}
+                        algorithm={comparison.algorithm}
+                        spatialIndex={compareParams().spatialIndex}
+                        queryStats={compareStatus?.queryStats ?? null}
+                        collisionMode={compareCollisionMode}
+                        collisionStats={compareStatus?.collisionStats ?? null}
+                        informedArea={compareStatus?.informedEllipse ? ellipseArea(compareStatus.informedEllipse) : null}
+                        worldArea={world.width * world.height}
+                        rewireRadius={comparison.algorithm === 'RRT*' ? compareStatus?.rewireRadius ?? null : null}
+                        rewireK={comparison.algorithm === 'RRT*' ? compareStatus?.rewireK ?? null : null}
+                        processedLength={compareProcessedPath ? polylineCost(compareProcessedPath, costRegions) : null}
+                        counters={compareStatus?.counters ?? null}
+                      />
+                      <div className="flex justify-center">
+                        {renderCanvas(compareView, comparison.algorithm, compareReplay ? null : compareStatus?.informedEllipse ?? null, compareProcessedPath)}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  renderCanvas(view, algorithm, replayFrame ? null : informedRegion, processedPath)
+                )}
              </div>
+
+             <Timeline
+                total={timelineTotal}
+                position={replayAt}
+                markers={solutionTicks}
+                onSeek={handleSeek}
+             />
+
+             {isChartOpen && (
+               <ConvergenceChart
+                  series={convergenceSeries}
+                  lowerBound={Math.min(...goals.map(g => dist(start, g))) * minMultiplier(costRegions)}
+                  cursor={replayAt}
+               />
+             )}
         </div>
       </div>
     </div>
@@ -1,269 +1,968 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { Node, Obstacle, Point } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Square, Circle, Pentagon, MousePointer2, Copy, Trash2, FileCode, ImageDown, Video, CircleStop, Mountain, Flag, Hand, Maximize, Pin, X } from 'lucide-react';
+import { AlgorithmType, CostRegion, EdgeEnd, Ellipse, Goal, Node, Obstacle, ObstacleKind, OccupancyGrid, Point } from '../types';
+import { Bounds, dist, isSimplePolygon, obstacleBounds, pointInObstacle } from '../utils/geo';
+import { SceneDrawing, costRegionFill, drawOverlayLayer, drawScene, drawStaticLayer, renderOccupancy, traceObstacle, traceTreeEdge } from './drawScene';
+import { TreeLayer } from './treeLayer';
+import { SvgContext } from './svgContext';
+import { downloadBlob } from '../utils/download';
+import { MAX_GOAL_RADIUS, MIN_GOAL_RADIUS, circleGoal, rectGoal } from '../utils/goals';
 
 interface CanvasProps {
-  nodes: Node[];
+  nodes: Node[]; // May be extended and patched in place; treeRevision then changes
+  treeRevision: number;
   path: number[]; // Node IDs
   obstacles: Obstacle[];
+  occupancy: OccupancyGrid | null; // Bitmap map drawn under the vector obstacles
+  costRegions: CostRegion[];
+  costMultiplier: number; // Given to regions drawn on the terrain layer
   start: Point;
-  goal: Point;
+  goals: Goal[];
   width: number;
   height: number;
-  onObstacleAdd: (obs: Obstacle) => void;
-  onObstacleRemove: (index: number) => void;
+  algorithm: AlgorithmType; // The inspector counts rewires for RRT*
+  // Single edits (draw, delete, duplicate) go to onObstaclesChange and are recorded for undo
+  // right away. Drags call onEditBegin, stream live updates through onObstaclesDrag /
+  // onStartMove / onGoalMove, and are recorded as one step by onEditEnd.
+  onObstaclesChange: (obstacles: Obstacle[]) => void;
+  onCostRegionsChange: (regions: CostRegion[]) => void;
+  onGoalsChange: (goals: Goal[]) => void;
+  onObstaclesDrag: (obstacles: Obstacle[]) => void;
   onStartMove: (p: Point) => void;
-  onGoalMove: (p: Point) => void;
+  onGoalMove: (index: number, p: Point) => void;
+  onEditBegin: () => void;
+  onEditEnd: () => void;
   isRunning: boolean;
   
   // Visualization Props
   tempSample: Point | null;
-  tempNewPoint: Point | null;
+  tempNewPoint: EdgeEnd | null;
   tempNearest: Node | null;
+  informedEllipse: Ellipse | null;
+  processedPath: Point[] | null; // Shortcut / smoothed version of `path`
 }
 
+type Tool = ObstacleKind | 'select' | 'pan';
+
+// What the drawing tools create: walls, terrain with a cost multiplier, or goal regions
+type Layer = 'obstacles' | 'terrain' | 'goals';
+
+// Rectangle from opposite corners, circle from centre and a point on its rim
+const shapeFromDrag = (tool: Tool, from: Point, to: Point): Obstacle | null => {
+  if (tool === 'rect') {
+    return {
+      kind: 'rect',
+      x: Math.min(from.x, to.x),
+      y: Math.min(from.y, to.y),
+      w: Math.abs(to.x - from.x),
+      h: Math.abs(to.y - from.y),
+    };
+  }
+  if (tool === 'circle') {
+    return { kind: 'circle', x: from.x, y: from.y, r: dist(from, to) };
+  }
+  return null;
+};
+
+const translateObstacle = (obs: Obstacle, dx: number, dy: number): Obstacle => {
+  if (obs.kind === 'polygon') return { ...obs, points: obs.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+  return { ...obs, x: obs.x + dx, y: obs.y + dy };
+};
+
+// Resize handles: rectangle corners (clockwise from top-left), a point on the
+// circle's rim, or every polygon vertex
+const obstacleHandles = (obs: Obstacle): Point[] => {
+  switch (obs.kind) {
+    case 'rect':
+      return [
+        { x: obs.x, y: obs.y },
+        { x: obs.x + obs.w, y: obs.y },
+        { x: obs.x + obs.w, y: obs.y + obs.h },
+        { x: obs.x, y: obs.y + obs.h },
+      ];
+    case 'circle':
+      return [{ x: obs.x + obs.r, y: obs.y }];
+    case 'polygon':
+      return obs.points;
+  }
+};
+
+// Shape with handle `handle` dragged to `pos`, or null if the result is invalid
+const resizeObstacle = (obs: Obstacle, handle: number, pos: Point): Obstacle | null => {
+  switch (obs.kind) {
+    case 'rect':
+      return shapeFromDrag('rect', obstacleHandles(obs)[(handle + 2) % 4], pos);
+    case 'circle':
+      return { ...obs, r: dist(obs, pos) };
+    case 'polygon': {
+      const points = obs.points.map((p, i) => (i === handle ? pos : p));
+      return isSimplePolygon(points) ? { ...obs, points } : null;
+    }
+  }
+};
+
+const boundsOverlap = (a: Bounds, b: Bounds): boolean => {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+};
+
+// Screen-space sizes, divided by the zoom when compared with world distances
+const HANDLE_SIZE = 7;
+const PICK_RADIUS = 15; // Grabbing start and goals
+const NODE_PICK_RADIUS = 8; // Hovering a tree node
+const CLOSE_RADIUS = 10; // Closing a polygon on its first vertex
+const DUPLICATE_OFFSET = 20;
+
+// The canvas element is a fixed viewport; the world is mapped onto it by a View
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 600;
+const MAX_ZOOM = 16;
+const WHEEL_ZOOM = 0.0015; // Zoom factor per wheel delta unit, exponentiated
+const MINIMAP_WIDTH = 160;
+
+// World point at the viewport's top-left corner and screen pixels per world pixel
+interface View {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// The whole world, centred in the viewport
+const fitView = (width: number, height: number): View => {
+  const zoom = Math.min(VIEW_WIDTH / width, VIEW_HEIGHT / height);
+  return { zoom, x: (width - VIEW_WIDTH / zoom) / 2, y: (height - VIEW_HEIGHT / zoom) / 2 };
+};
+
+// Zooms by `factor` keeping the world point under `screen` in place; zooming out stops
+// at half the fitted zoom
+const zoomAt = (view: View, screen: Point, factor: number, width: number, height: number): View => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(fitView(width, height).zoom / 2, view.zoom * factor));
+  return {
+    zoom,
+    x: view.x + screen.x / view.zoom - screen.x / zoom,
+    y: view.y + screen.y / view.zoom - screen.y / zoom,
+  };
+};
+
+const screenToWorld = (view: View, p: Point): Point => ({ x: view.x + p.x / view.zoom, y: view.y + p.y / view.zoom });
+
+const clampToWorld = (p: Point, width: number, height: number): Point => ({
+  x: Math.min(width, Math.max(0, p.x)),
+  y: Math.min(height, Math.max(0, p.y)),
+});
+
+// Nearest node still in the tree within `radius` of `p`, or null
+const nodeAt = (nodes: Node[], p: Point, radius: number): number | null => {
+  let best: number | null = null;
+  let bestDist = radius;
+  for (const node of nodes) {
+    if (node.pruned) continue;
+    const d = dist(node, p);
+    if (d <= bestDist) {
+      best = node.id;
+      bestDist = d;
+    }
+  }
+  return best;
+};
+
+// What depends on a node and what it depends on: the chain up to its root (the node
+// first) and every descendant, whose costs change whenever the node's does
+interface Inspection {
+  ancestry: number[];
+  subtree: number[];
+}
+
+const inspectNode = (nodes: Node[], id: number): Inspection => {
+  const ancestry: number[] = [];
+  for (let curr: number | null = id; curr !== null; curr = nodes[curr].parentId) ancestry.push(curr);
+  const subtree: number[] = [];
+  const queue = [...nodes[id].children];
+  for (let i = 0; i < queue.length; i++) {
+    subtree.push(queue[i]);
+    queue.push(...nodes[queue[i]].children);
+  }
+  return { ancestry, subtree };
+};
+
+// Children listed by id in the inspector before the rest are summarised
+const INSPECTOR_CHILDREN = 8;
+
+// Exports
+const PNG_SCALE = 2;
+// Larger canvases fail in some browsers (Safari caps the area at 16.7 megapixels,
+// Chrome and Firefox a side at 32767 px), so big worlds export at a lower scale
+const MAX_EXPORT_SIDE = 16384;
+const MAX_EXPORT_PIXELS = 4096 * 4096;
+
+const pngScale = (width: number, height: number): number => {
+  return Math.min(PNG_SCALE, MAX_EXPORT_SIDE / width, MAX_EXPORT_SIDE / height, Math.sqrt(MAX_EXPORT_PIXELS / (width * height)));
+};
+const RECORD_FPS = 30;
+
+const recordingMimeType = (): string => {
+  return MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+};
+
+const isShapeBigEnough = (obs: Obstacle): boolean => {
+  if (obs.kind === 'rect') return obs.w > 5 && obs.h > 5;
+  if (obs.kind === 'circle') return obs.r > 3;
+  return obs.points.length >= 3;
+};
+
+const TOOLS: { kind: Tool; label: string; icon: React.ReactNode }[] = [
+  { kind: 'pan', label: 'Pan (drag the view; middle-drag pans with any tool, the wheel zooms)', icon: <Hand size={14} /> },
+  { kind: 'select', label: 'Select (click or drag a box, Shift adds; drag to move, handles resize)', icon: <MousePointer2 size={14} /> },
+  { kind: 'rect', label: 'Rectangle (drag corners)', icon: <Square size={14} /> },
+  { kind: 'circle', label: 'Circle (drag radius)', icon: <Circle size={14} /> },
+  { kind: 'polygon', label: 'Polygon (click vertices, click first vertex or double-click to close, Esc to cancel)', icon: <Pentagon size={14} /> },
+];
+
+// Goal regions are circles or rectangles; obstacles alone can be selected
+const layerTools = (layer: Layer) => {
+  if (layer === 'goals') return TOOLS.filter(t => t.kind === 'pan' || t.kind === 'rect' || t.kind === 'circle');
+  return layer === 'obstacles' ? TOOLS : TOOLS.filter(t => t.kind !== 'select');
+};
+
+const LAYER_TOGGLES: { layer: Layer; label: string; active: string; icon: React.ReactNode }[] = [
+  { layer: 'terrain', label: 'terrain cost regions', active: 'bg-amber-600', icon: <Mountain size={14} /> },
+  { layer: 'goals', label: 'goal regions', active: 'bg-red-600', icon: <Flag size={14} /> },
+];
+
 const Canvas: React.FC<CanvasProps> = ({ 
-  nodes, path, obstacles, start, goal, width, height,
-  onObstacleAdd, onObstacleRemove, onStartMove, onGoalMove, isRunning,
-  tempSample, tempNewPoint, tempNearest
+  nodes, treeRevision, path, obstacles, occupancy, costRegions, costMultiplier, start, goals, width, height, algorithm,
+  onObstaclesChange, onCostRegionsChange, onGoalsChange, onObstaclesDrag, onStartMove, onGoalMove, onEditBegin, onEditEnd, isRunning,
+  tempSample, tempNewPoint, tempNearest, informedEllipse, processedPath
 }) => {
+  // Stacked layers: the map, the tree, and step markers plus editing overlays on top.
+  // The top one (canvasRef) takes the mouse.
+  const staticRef = useRef<HTMLCanvasElement>(null);
+  const treeRef = useRef<HTMLCanvasElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [interactionMode, setInteractionMode] = useState<'none' | 'drawing' | 'movingStart' | 'movingGoal'>('none');
+  const treeLayer = useMemo(() => new TreeLayer(), []);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const [interactionMode, setInteractionMode] = useState<'none' | 'drawing' | 'movingStart' | 'movingGoal' | 'selecting' | 'moving' | 'resizing' | 'panning'>('none');
+  const [view, setView] = useState<View>(() => fitView(width, height));
+  // Panning: the screen point the drag began at and the view at that moment
+  const [panOrigin, setPanOrigin] = useState<{ screen: Point; view: View } | null>(null);
   const [dragStart, setDragStart] = useState<Point | null>(null);
   const [mousePos, setMousePos] = useState<Point | null>(null);
+  const [tool, setTool] = useState<Tool>('rect');
+  const [layer, setLayer] = useState<Layer>('obstacles');
+  const [polygonDraft, setPolygonDraft] = useState<Point[]>([]);
+  // Goal being dragged
+  const [activeGoal, setActiveGoal] = useState<number | null>(null);
+  // Select tool: indices into `obstacles`, the obstacles as they were when a move /
+  // resize began, and the handle being dragged
+  const [selected, setSelected] = useState<number[]>([]);
+  const [dragObstacles, setDragObstacles] = useState<Obstacle[] | null>(null);
+  const [activeHandle, setActiveHandle] = useState<number | null>(null);
+  // Node inspector: the node under the cursor, and one pinned by a click, which wins
+  const [hoveredNode, setHoveredNode] = useState<number | null>(null);
+  const [pinnedNode, setPinnedNode] = useState<number | null>(null);
+  const occupancyLayer = useMemo(() => (occupancy ? renderOccupancy(occupancy) : null), [occupancy]);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordFrameRef = useRef<number | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Stop an unfinished recording if the canvas goes away
+  useEffect(() => () => recorderRef.current?.stop(), []);
 
-  // Render Loop
+  // A resized world starts out fitted
+  useEffect(() => {
+    setView(fitView(width, height));
+  }, [width, height]);
+
+  // Wheel zoom around the cursor. React registers wheel listeners as passive, so the page
+  // would scroll too; a native listener can prevent that.
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const screen = screenPos(e);
+      setView(v => zoomAt(v, screen, Math.exp(-e.deltaY * WHEEL_ZOOM), width, height));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [width, height]);
 
-    // Clear
-    ctx.clearRect(0, 0, width, height);
-    ctx.fillStyle = '#0f172a'; // slate-900 matches bg
-    ctx.fillRect(0, 0, width, height);
+  // Whole world on screen (within rounding), so the minimap would add nothing
+  const fullyVisible = view.x <= 1e-6 && view.y <= 1e-6 &&
+    view.x + VIEW_WIDTH / view.zoom >= width - 1e-6 && view.y + VIEW_HEIGHT / view.zoom >= height - 1e-6;
 
-    // Draw Obstacles
-    ctx.fillStyle = '#334155'; // slate-700
-    ctx.strokeStyle = '#475569'; // slate-600
-    obstacles.forEach(obs => {
-      ctx.fillRect(obs.x, obs.y, obs.w, obs.h);
-      ctx.strokeRect(obs.x, obs.y, obs.w, obs.h);
-    });
+  // A reset or another replayed frame may not have the node; pruned nodes stay inspectable
+  const inspectedId = pinnedNode ?? hoveredNode;
+  const inspected = inspectedId !== null ? nodes[inspectedId] ?? null : null;
+  const inspection = useMemo(
+    () => (inspected ? inspectNode(nodes, inspected.id) : null),
+    [nodes, treeRevision, inspected],
+  );
 
-    // Draw Drawing Preview
-    if (interactionMode === 'drawing' && dragStart && mousePos) {
-       ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
-       ctx.strokeStyle = '#94a3b8';
-       ctx.setLineDash([5, 5]);
-       const w = Math.abs(mousePos.x - dragStart.x);
-       const h = Math.abs(mousePos.y - dragStart.y);
-       const x = Math.min(mousePos.x, dragStart.x);
-       const y = Math.min(mousePos.y, dragStart.y);
-       ctx.fillRect(x, y, w, h);
-       ctx.strokeRect(x, y, w, h);
-       ctx.setLineDash([]);
-    }
+  // Undo / redo can remove obstacles from under the selection
+  useEffect(() => {
+    setSelected(sel => sel.filter(i => i < obstacles.length));
+  }, [obstacles.length]);
 
-    // Draw Tree Edges
-    ctx.lineWidth = 1;
-    nodes.forEach(node => {
-      if (node.parentId !== null) {
-        const parent = nodes[node.parentId];
-        // Gradient for depth perception? Keep it simple first.
-        ctx.strokeStyle = '#64748b'; // slate-500
-        ctx.beginPath();
-        ctx.moveTo(parent.x, parent.y);
-        ctx.lineTo(node.x, node.y);
-        ctx.stroke();
+  const deleteSelected = () => {
+    if (selected.length === 0) return;
+    onObstaclesChange(obstacles.filter((_, i) => !selected.includes(i)));
+    setSelected([]);
+  };
+
+  // Copies are appended on top, slightly offset, and become the new selection
+  const duplicateSelected = () => {
+    if (selected.length === 0) return;
+    const copies = selected.map(i => translateObstacle(obstacles[i], DUPLICATE_OFFSET, DUPLICATE_OFFSET));
+    onObstaclesChange([...obstacles, ...copies]);
+    setSelected(copies.map((_, k) => obstacles.length + k));
+  };
+
+  // Esc abandons a half-drawn polygon or the selection; Delete and Ctrl+D act on the selection
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Escape') {
+        setPolygonDraft([]);
+        setSelected([]);
+        setPinnedNode(null);
+      } else if (isRunning || interactionMode !== 'none') {
+        return;
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        if (selected.length > 0) e.preventDefault();
+        deleteSelected();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        duplicateSelected();
       }
-    });
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [obstacles, selected, isRunning, interactionMode]);
 
-    // Draw Nodes (only if count is low, otherwise too cluttered)
-    if (nodes.length < 1000) {
-      ctx.fillStyle = '#94a3b8'; // slate-400
-      nodes.forEach(node => {
-        ctx.beginPath();
-        ctx.arc(node.x, node.y, 1.5, 0, Math.PI * 2);
-        ctx.fill();
-      });
+  const sceneDrawing = (): SceneDrawing => ({
+    width, height, nodes, path, obstacles, occupancy, costRegions, occupancyLayer, start, goals,
+    tempSample, tempNewPoint, tempNearest, informedEllipse, processedPath,
+  });
+
+  // SVG and PNG exports redraw the scene without the editing overlays
+  const exportSvg = () => {
+    const svg = new SvgContext(width, height);
+    drawScene(svg, sceneDrawing());
+    downloadBlob(new Blob([svg.toString()], { type: 'image/svg+xml' }), `rrt-${nodes.length}-nodes.svg`);
+  };
+
+  const exportPng = () => {
+    const scale = pngScale(width, height);
+    const out = document.createElement('canvas');
+    out.width = Math.round(width * scale);
+    out.height = Math.round(height * scale);
+    const ctx = out.getContext('2d');
+    if (!ctx) {
+      setExportError('PNG export failed: no 2D canvas available');
+      return;
     }
+    ctx.scale(scale, scale);
+    drawScene(ctx, sceneDrawing());
+    out.toBlob(blob => {
+      if (!blob) {
+        setExportError(`PNG export failed: the browser could not encode a ${out.width}×${out.height} image`);
+        return;
+      }
+      setExportError(null);
+      downloadBlob(blob, `rrt-${nodes.length}-nodes@${Number(scale.toFixed(2))}x.png`);
+    }, 'image/png');
+  };
 
-    // --- Visualization of Micro-Steps ---
-    
-    // Draw Temp Sample (Random Point)
-    if (tempSample) {
-        ctx.fillStyle = '#f59e0b'; // amber-500
-        ctx.beginPath();
-        ctx.arc(tempSample.x, tempSample.y, 4, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillStyle = '#f59e0b';
-        ctx.font = '10px Arial';
-        ctx.fillText('q_rand', tempSample.x + 8, tempSample.y);
+  // Records the live view: the layers are composited onto one canvas every frame, and the
+  // file is saved when recording stops
+  const toggleRecording = () => {
+    if (recorderRef.current) {
+      recorderRef.current.stop();
+      return;
     }
+    const canvas = document.createElement('canvas');
+    canvas.width = VIEW_WIDTH;
+    canvas.height = VIEW_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || typeof MediaRecorder === 'undefined') return;
+    const composite = () => {
+      for (const layerCanvas of [staticRef.current, treeRef.current, canvasRef.current]) {
+        if (layerCanvas) ctx.drawImage(layerCanvas, 0, 0);
+      }
+      recordFrameRef.current = requestAnimationFrame(composite);
+    };
+    composite();
+    const mimeType = recordingMimeType();
+    const recorder = new MediaRecorder(canvas.captureStream(RECORD_FPS), { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      if (recordFrameRef.current !== null) cancelAnimationFrame(recordFrameRef.current);
+      recordFrameRef.current = null;
+      recorder.stream.getTracks().forEach(t => t.stop());
+      recorderRef.current = null;
+      setRecording(false);
+      if (chunks.length > 0) downloadBlob(new Blob(chunks, { type: mimeType }), `rrt-run-${Date.now()}.webm`);
+    };
+    recorder.start(1000);
+    recorderRef.current = recorder;
+    setRecording(true);
+  };
 
-    // Draw Line to Nearest
-    if (tempNearest && tempSample) {
-        ctx.strokeStyle = 'rgba(245, 158, 11, 0.3)'; // faint amber
-        ctx.setLineDash([2, 2]);
-        ctx.beginPath();
-        ctx.moveTo(tempNearest.x, tempNearest.y);
-        ctx.lineTo(tempSample.x, tempSample.y);
-        ctx.stroke();
-        ctx.setLineDash([]);
-        
-        // Highlight nearest node
-        ctx.strokeStyle = '#f59e0b';
-        ctx.beginPath();
-        ctx.arc(tempNearest.x, tempNearest.y, 6, 0, Math.PI * 2);
-        ctx.stroke();
+  // Clears a layer and sets the view transform on it
+  const beginLayer = (canvas: HTMLCanvasElement | null): CanvasRenderingContext2D | null => {
+    const ctx = canvas?.getContext('2d');
+    if (!ctx) return null;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, VIEW_WIDTH, VIEW_HEIGHT);
+    ctx.setTransform(view.zoom, 0, 0, view.zoom, -view.x * view.zoom, -view.y * view.zoom);
+    return ctx;
+  };
+
+  // Static layer: redrawn on edits and view changes only
+  useEffect(() => {
+    const ctx = beginLayer(staticRef.current);
+    if (!ctx) return;
+    // Outside the world, then the world through the view
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#020617'; // slate-950
+    ctx.fillRect(0, 0, VIEW_WIDTH, VIEW_HEIGHT);
+    ctx.setTransform(view.zoom, 0, 0, view.zoom, -view.x * view.zoom, -view.y * view.zoom);
+    drawStaticLayer(ctx, sceneDrawing());
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }, [obstacles, occupancy, occupancyLayer, costRegions, goals, width, height, view]);
+
+  // Tree layer: catches up with new and rewired nodes, then re-strokes the cached paths
+  useEffect(() => {
+    treeLayer.sync(nodes);
+    const ctx = beginLayer(treeRef.current);
+    if (!ctx) return;
+    treeLayer.draw(ctx);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }, [nodes, treeRevision, width, height, view]);
+
+  // Overlay: informed ellipse, step markers, path and endpoints, then the editing overlays
+  useEffect(() => {
+    const ctx = beginLayer(canvasRef.current);
+    if (!ctx) return;
+    drawOverlayLayer(ctx, sceneDrawing());
+
+    // --- Editing overlays (live view only), kept at a constant screen size ---
+    const px = 1 / view.zoom;
+
+    // Inspected node: its subtree, then its way back to the root over it
+    if (inspected && inspection) {
+      ctx.strokeStyle = '#e879f9'; // fuchsia-400
+      ctx.lineWidth = 1.5 * px;
+      ctx.beginPath();
+      inspection.subtree.forEach(id => traceTreeEdge(ctx, nodes, nodes[id]));
+      ctx.stroke();
+      ctx.strokeStyle = '#fcd34d'; // amber-300
+      ctx.lineWidth = 2.5 * px;
+      ctx.beginPath();
+      inspection.ancestry.slice(0, -1).forEach(id => traceTreeEdge(ctx, nodes, nodes[id]));
+      ctx.stroke();
+      ctx.strokeStyle = '#f8fafc';
+      ctx.lineWidth = 2 * px;
+      ctx.beginPath();
+      ctx.arc(inspected.x, inspected.y, 6 * px, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.lineWidth = 1;
     }
 
-    // Draw Candidate Edge (Steer)
-    if (tempNewPoint && tempNearest) {
-        ctx.strokeStyle = '#fbbf24'; // amber-400 brighter
-        ctx.lineWidth = 2;
+    // Selection outlines, plus handles when a single obstacle is selected
+    if (selected.length > 0) {
+      ctx.strokeStyle = '#60a5fa'; // blue-400
+      ctx.lineWidth = 2 * px;
+      selected.forEach(i => {
+        if (!obstacles[i]) return;
         ctx.beginPath();
-        ctx.moveTo(tempNearest.x, tempNearest.y);
-        ctx.lineTo(tempNewPoint.x, tempNewPoint.y);
+        traceObstacle(ctx, obstacles[i]);
         ctx.stroke();
-        ctx.lineWidth = 1;
-
-        ctx.fillStyle = '#fbbf24';
-        ctx.beginPath();
-        ctx.arc(tempNewPoint.x, tempNewPoint.y, 3, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillText('q_new', tempNewPoint.x + 8, tempNewPoint.y);
+      });
+      ctx.lineWidth = px;
+      if (selected.length === 1 && obstacles[selected[0]]) {
+        const size = HANDLE_SIZE * px;
+        ctx.fillStyle = '#f8fafc';
+        obstacleHandles(obstacles[selected[0]]).forEach(h => {
+          ctx.fillRect(h.x - size / 2, h.y - size / 2, size, size);
+          ctx.strokeRect(h.x - size / 2, h.y - size / 2, size, size);
+        });
+      }
+      ctx.lineWidth = 1;
     }
 
-    // ------------------------------------
-
-    // Draw Path
-    if (path.length > 0) {
-      ctx.lineWidth = 3;
-      ctx.strokeStyle = '#10b981'; // emerald-500
+    // Selection box
+    if (interactionMode === 'selecting' && dragStart && mousePos) {
+      ctx.fillStyle = 'rgba(96, 165, 250, 0.08)';
+      ctx.strokeStyle = '#60a5fa';
+      ctx.lineWidth = px;
+      ctx.setLineDash([4 * px, 3 * px]);
+      const box = shapeFromDrag('rect', dragStart, mousePos) as Obstacle;
       ctx.beginPath();
-      const startNode = nodes[path[0]];
-      ctx.moveTo(startNode.x, startNode.y);
-      for (let i = 1; i < path.length; i++) {
-        const n = nodes[path[i]];
-        ctx.lineTo(n.x, n.y);
-      }
+      traceObstacle(ctx, box);
+      ctx.fill();
       ctx.stroke();
+      ctx.setLineDash([]);
     }
 
-    // Draw Start
-    ctx.fillStyle = '#3b82f6'; // blue-500
-    ctx.beginPath();
-    ctx.arc(start.x, start.y, 8, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.fillStyle = 'white';
-    ctx.font = '10px Arial';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText('S', start.x, start.y);
-
-    // Draw Goal
-    ctx.fillStyle = '#ef4444'; // red-500
+    // Draw Drawing Preview
+    const preview = interactionMode === 'drawing' && dragStart && mousePos
+      ? shapeFromDrag(tool, dragStart, mousePos)
+      : null;
+    if (preview) {
+       ctx.fillStyle = layer === 'terrain' ? costRegionFill(costMultiplier) : layer === 'goals' ? 'rgba(239, 68, 68, 0.12)' : 'rgba(255, 255, 255, 0.1)';
+       ctx.strokeStyle = '#94a3b8';
+       ctx.lineWidth = px;
+       ctx.setLineDash([5 * px, 5 * px]);
+       ctx.beginPath();
+       traceObstacle(ctx, preview);
+       ctx.fill();
+       ctx.stroke();
+       ctx.setLineDash([]);
+    }
+
+    // Polygon under construction: placed edges plus a rubber band to the cursor
+    if (polygonDraft.length > 0) {
+       ctx.strokeStyle = '#94a3b8';
+       ctx.lineWidth = px;
+       ctx.setLineDash([5 * px, 5 * px]);
+       ctx.beginPath();
+       polygonDraft.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+       if (mousePos) ctx.lineTo(mousePos.x, mousePos.y);
+       ctx.stroke();
+       ctx.setLineDash([]);
+       ctx.fillStyle = '#94a3b8';
+       polygonDraft.forEach((p, i) => {
+         ctx.beginPath();
+         ctx.arc(p.x, p.y, (i === 0 ? 5 : 3) * px, 0, Math.PI * 2);
+         ctx.fill();
+       });
+    }
+    ctx.lineWidth = 1;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  }, [nodes, treeRevision, path, obstacles, costMultiplier, layer, start, goals, width, height, view, interactionMode, dragStart, mousePos, tool, polygonDraft, selected, tempSample, tempNewPoint, tempNearest, informedEllipse, processedPath, inspection]);
+
+  // Minimap: the world in outline with the part in view, shown while zoomed in
+  useEffect(() => {
+    const canvas = minimapRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const scale = canvas.width / width;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.fillStyle = '#0f172a'; // slate-900
+    ctx.fillRect(0, 0, width, height);
+    if (occupancy) ctx.drawImage(occupancyLayer ?? renderOccupancy(occupancy), 0, 0, occupancy.cols * occupancy.resolution, occupancy.rows * occupancy.resolution);
+    ctx.fillStyle = '#475569'; // slate-600
+    obstacles.forEach(obs => {
+      ctx.beginPath();
+      traceObstacle(ctx, obs);
+      ctx.fill();
+    });
+    ctx.strokeStyle = '#10b981'; // emerald-500
+    ctx.lineWidth = 2 / scale;
     ctx.beginPath();
-    ctx.arc(goal.x, goal.y, 8, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.fillStyle = 'white';
-    ctx.fillText('G', goal.x, goal.y);
+    path.forEach((id, i) => nodes[id] && (i === 0 ? ctx.moveTo(nodes[id].x, nodes[id].y) : ctx.lineTo(nodes[id].x, nodes[id].y)));
+    ctx.stroke();
+    ctx.fillStyle = '#3b82f6';
+    ctx.fillRect(start.x - 3 / scale, start.y - 3 / scale, 6 / scale, 6 / scale);
+    ctx.fillStyle = '#ef4444';
+    goals.forEach(g => ctx.fillRect(g.x - 3 / scale, g.y - 3 / scale, 6 / scale, 6 / scale));
+    ctx.strokeStyle = '#f8fafc';
+    ctx.lineWidth = 1.5 / scale;
+    ctx.strokeRect(view.x, view.y, VIEW_WIDTH / view.zoom, VIEW_HEIGHT / view.zoom);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }, [fullyVisible, nodes, treeRevision, path, obstacles, occupancy, occupancyLayer, start, goals, width, height, view]);
 
-  }, [nodes, path, obstacles, start, goal, width, height, interactionMode, dragStart, mousePos, tempSample, tempNewPoint, tempNearest]);
+  // Dragging on the minimap centres the view there
+  const handleMinimapMouse = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.type === 'mousemove' && !(e.buttons & 1)) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * width;
+    const y = ((e.clientY - rect.top) / rect.height) * height;
+    setView(v => ({ ...v, x: x - VIEW_WIDTH / v.zoom / 2, y: y - VIEW_HEIGHT / v.zoom / 2 }));
+  };
 
   // Event Handlers for Interaction
-  const getMousePos = (e: React.MouseEvent) => {
+  // The canvas may be shown scaled down (e.g. side by side), so map back to viewport pixels
+  const screenPos = (e: { clientX: number; clientY: number }): Point => {
     const rect = canvasRef.current!.getBoundingClientRect();
     return {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top
+      x: ((e.clientX - rect.left) * VIEW_WIDTH) / rect.width,
+      y: ((e.clientY - rect.top) * VIEW_HEIGHT) / rect.height
     };
   };
 
+  const getMousePos = (e: React.MouseEvent) => screenToWorld(view, screenPos(e));
+
+  const zoomBy = (factor: number) => {
+    setView(zoomAt(view, { x: VIEW_WIDTH / 2, y: VIEW_HEIGHT / 2 }, factor, width, height));
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
+    // Panning works at any time: middle drag, or left drag with the pan tool
+    if (e.button === 1 || (e.button === 0 && tool === 'pan')) {
+      e.preventDefault();
+      setPanOrigin({ screen: screenPos(e), view });
+      setInteractionMode('panning');
+      return;
+    }
     // Only left click for actions
     if (e.button !== 0) return;
-    if (isRunning) return;
-
     const pos = getMousePos(e);
+    const nodeHit = nodeAt(nodes, pos, NODE_PICK_RADIUS / view.zoom);
+
+    // Nothing is editable during a run, so a click pins the node under it (or unpins)
+    if (isRunning) {
+      setPinnedNode(nodeHit);
+      return;
+    }
+
+    const pick = PICK_RADIUS / view.zoom;
     
-    // Check if clicking start or goal
+    // Check if clicking start or a goal
     const distStart = Math.sqrt(Math.pow(pos.x - start.x, 2) + Math.pow(pos.y - start.y, 2));
-    const distGoal = Math.sqrt(Math.pow(pos.x - goal.x, 2) + Math.pow(pos.y - goal.y, 2));
+    const goalHit = goals.findIndex(g => dist(pos, g) < pick);
 
-    if (distStart < 15) {
+    if (polygonDraft.length > 0) {
+      addPolygonVertex(pos);
+    } else if (distStart < pick) {
+      onEditBegin();
       setInteractionMode('movingStart');
-    } else if (distGoal < 15) {
+    } else if (goalHit !== -1) {
+      onEditBegin();
+      setActiveGoal(goalHit);
       setInteractionMode('movingGoal');
+    } else if (tool === 'select' && nodeHit !== null && topmostObstacleAt(pos) === -1) {
+      setPinnedNode(nodeHit);
+    } else if (tool === 'select') {
+      setPinnedNode(null);
+      beginSelectGesture(pos, e.shiftKey);
+    } else if (tool === 'polygon') {
+      addPolygonVertex(pos);
     } else {
       setInteractionMode('drawing');
       setDragStart(pos);
     }
   };
 
+  const topmostObstacleAt = (pos: Point): number => {
+    for (let i = obstacles.length - 1; i >= 0; i--) {
+      if (pointInObstacle(pos, obstacles[i])) return i;
+    }
+    return -1;
+  };
+
+  // Select tool press: grab a handle, pick / move obstacles, or start a selection box
+  const beginSelectGesture = (pos: Point, additive: boolean) => {
+    if (selected.length === 1) {
+      const handle = obstacleHandles(obstacles[selected[0]]).findIndex(h => dist(h, pos) <= HANDLE_SIZE / view.zoom);
+      if (handle !== -1) {
+        onEditBegin();
+        setActiveHandle(handle);
+        setDragObstacles(obstacles);
+        setDragStart(pos);
+        setInteractionMode('resizing');
+        return;
+      }
+    }
+
+    const hit = topmostObstacleAt(pos);
+    if (hit === -1) {
+      if (!additive) setSelected([]);
+      setDragStart(pos);
+      setInteractionMode('selecting');
+    } else if (additive) {
+      setSelected(selected.includes(hit) ? selected.filter(i => i !== hit) : [...selected, hit]);
+    } else {
+      if (!selected.includes(hit)) setSelected([hit]);
+      onEditBegin();
+      setDragObstacles(obstacles);
+      setDragStart(pos);
+      setInteractionMode('moving');
+    }
+  };
+
+  // A finished shape becomes an obstacle, a cost region or a goal, depending on the layer
+  const addShape = (shape: Obstacle) => {
+    if (layer === 'terrain') onCostRegionsChange([...costRegions, { shape, multiplier: costMultiplier }]);
+    else if (layer === 'goals') onGoalsChange([...goals, goalFromShape(shape)]);
+    else onObstaclesChange([...obstacles, shape]);
+  };
+
+  // The goal point is the centre of the drawn shape
+  const goalFromShape = (shape: Obstacle): Goal => {
+    if (shape.kind === 'rect') return rectGoal(shape.x, shape.y, shape.w, shape.h);
+    if (shape.kind === 'circle') return circleGoal(shape, Math.min(MAX_GOAL_RADIUS, Math.max(MIN_GOAL_RADIUS, shape.r)));
+    throw new Error('goal regions are circles or rectangles');
+  };
+
+  const closePolygon = (points: Point[]) => {
+    // Only simple polygons are accepted; a crossing outline is discarded
+    if (isSimplePolygon(points)) {
+      addShape({ kind: 'polygon', points });
+    }
+    setPolygonDraft([]);
+  };
+
+  const addPolygonVertex = (pos: Point) => {
+    if (polygonDraft.length >= 3 && dist(pos, polygonDraft[0]) < CLOSE_RADIUS / view.zoom) {
+      closePolygon(polygonDraft);
+      return;
+    }
+    setPolygonDraft([...polygonDraft, pos]);
+  };
+
+  const handleDoubleClick = () => {
+    // The two clicks of the double-click have each placed the same vertex
+    if (tool !== 'polygon' || polygonDraft.length < 4) return;
+    closePolygon(polygonDraft.slice(0, -1));
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
     const pos = getMousePos(e);
     setMousePos(pos);
 
-    if (interactionMode === 'none') return;
+    if (interactionMode === 'none') {
+      setHoveredNode(nodeAt(nodes, pos, NODE_PICK_RADIUS / view.zoom));
+      return;
+    }
 
-    if (interactionMode === 'movingStart') {
-      onStartMove(pos);
-    } else if (interactionMode === 'movingGoal') {
-      onGoalMove(pos);
-    } 
+    if (interactionMode === 'panning' && panOrigin) {
+      const screen = screenPos(e);
+      const { view: from } = panOrigin;
+      setView({ ...from, x: from.x - (screen.x - panOrigin.screen.x) / from.zoom, y: from.y - (screen.y - panOrigin.screen.y) / from.zoom });
+    } else if (interactionMode === 'movingStart') {
+      onStartMove(clampToWorld(pos, width, height));
+    } else if (interactionMode === 'movingGoal' && activeGoal !== null) {
+      onGoalMove(activeGoal, clampToWorld(pos, width, height));
+    } else if (interactionMode === 'moving' && dragObstacles && dragStart) {
+      const dx = pos.x - dragStart.x;
+      const dy = pos.y - dragStart.y;
+      onObstaclesDrag(dragObstacles.map((obs, i) => (selected.includes(i) ? translateObstacle(obs, dx, dy) : obs)));
+    } else if (interactionMode === 'resizing' && dragObstacles && activeHandle !== null) {
+      const index = selected[0];
+      const resized = resizeObstacle(dragObstacles[index], activeHandle, pos);
+      if (resized && isShapeBigEnough(resized)) {
+        onObstaclesDrag(dragObstacles.map((obs, i) => (i === index ? resized : obs)));
+      }
+    }
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
+    const pos = getMousePos(e);
     if (interactionMode === 'drawing' && dragStart) {
-      const pos = getMousePos(e);
-      const w = Math.abs(pos.x - dragStart.x);
-      const h = Math.abs(pos.y - dragStart.y);
-      if (w > 5 && h > 5) {
-        const x = Math.min(pos.x, dragStart.x);
-        const y = Math.min(pos.y, dragStart.y);
-        onObstacleAdd({ x, y, w, h });
+      const shape = shapeFromDrag(tool, dragStart, pos);
+      if (shape && isShapeBigEnough(shape)) {
+        addShape(shape);
       }
+    } else if (interactionMode === 'selecting' && dragStart && dist(dragStart, pos) > 3) {
+      const box = shapeFromDrag('rect', dragStart, pos)!;
+      const inBox = obstacles
+        .map((obs, i) => (boundsOverlap(obstacleBounds(obs), obstacleBounds(box)) ? i : -1))
+        .filter(i => i !== -1);
+      setSelected(e.shiftKey ? Array.from(new Set([...selected, ...inBox])) : inBox);
+    } else if (interactionMode === 'moving' || interactionMode === 'resizing' ||
+               interactionMode === 'movingStart' || interactionMode === 'movingGoal') {
+      onEditEnd();
     }
     setInteractionMode('none');
     setDragStart(null);
+    setDragObstacles(null);
+    setActiveHandle(null);
+    setActiveGoal(null);
+    setPanOrigin(null);
   };
 
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
     if (isRunning) return;
     
+    // Right click while drawing a polygon cancels it
+    if (polygonDraft.length > 0) {
+        setPolygonDraft([]);
+        return;
+    }
+
     const pos = getMousePos(e);
-    // Check if clicked on any obstacle (iterate backwards to get top-most if overlap)
-    for (let i = obstacles.length - 1; i >= 0; i--) {
-        const obs = obstacles[i];
-        if (pos.x >= obs.x && pos.x <= obs.x + obs.w && pos.y >= obs.y && pos.y <= obs.y + obs.h) {
-            onObstacleRemove(i);
-            return;
+    if (layer === 'terrain') {
+      for (let i = costRegions.length - 1; i >= 0; i--) {
+        if (pointInObstacle(pos, costRegions[i].shape)) {
+          onCostRegionsChange(costRegions.filter((_, k) => k !== i));
+          return;
+        }
+      }
+      return;
+    }
+    if (layer === 'goals') {
+      // The last goal stays: a run needs somewhere to go
+      for (let i = goals.length - 1; i >= 0 && goals.length > 1; i--) {
+        if (pointInObstacle(pos, goals[i].region)) {
+          onGoalsChange(goals.filter((_, k) => k !== i));
+          return;
         }
+      }
+      return;
+    }
+
+    // Check if clicked on any obstacle (top-most if they overlap)
+    const hit = topmostObstacleAt(pos);
+    if (hit !== -1) {
+        onObstaclesChange(obstacles.filter((_, i) => i !== hit));
+        setSelected([]);
     }
   };
 
   return (
-    <div className="relative rounded-lg overflow-hidden border border-slate-700 shadow-2xl">
+    <div className="relative max-w-full rounded-lg overflow-hidden border border-slate-700 shadow-2xl">
+        <canvas ref={staticRef} width={VIEW_WIDTH} height={VIEW_HEIGHT} className="block max-w-full h-auto bg-slate-950" />
+        <canvas ref={treeRef} width={VIEW_WIDTH} height={VIEW_HEIGHT} className="absolute inset-0 w-full h-full pointer-events-none" />
         <canvas
             ref={canvasRef}
-            width={width}
-            height={height}
-            className="cursor-crosshair block bg-slate-950"
+            width={VIEW_WIDTH}
+            height={VIEW_HEIGHT}
+            className={`${tool === 'pan' || interactionMode === 'panning' ? 'cursor-grab' : 'cursor-crosshair'} absolute inset-0 w-full h-full`}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
+            onMouseLeave={(e) => {
+              handleMouseUp(e);
+              setHoveredNode(null);
+            }}
             onContextMenu={handleContextMenu}
+            onDoubleClick={handleDoubleClick}
         />
+        <div className="absolute top-4 right-4 flex gap-1 bg-slate-900/80 backdrop-blur p-1 rounded border border-slate-700">
+            {LAYER_TOGGLES.map(t => (
+                <button
+                    key={t.layer}
+                    onClick={() => {
+                      const next = layer === t.layer ? 'obstacles' : t.layer;
+                      setLayer(next);
+                      if (!layerTools(next).some(lt => lt.kind === tool)) setTool('rect');
+                      setPolygonDraft([]);
+                      setSelected([]);
+                    }}
+                    title={layer === t.layer ? `Drawing ${t.label} (click to draw obstacles)` : `Draw ${t.label}`}
+                    className={`p-1.5 rounded transition-colors ${layer === t.layer ? `${t.active} text-white` : 'text-slate-400 hover:text-white'}`}
+                >
+                    {t.icon}
+                </button>
+            ))}
+            <div className="w-px bg-slate-700 mx-0.5" />
+            {layerTools(layer).map(t => (
+                <button
+                    key={t.kind}
+                    onClick={() => { setTool(t.kind); setPolygonDraft([]); setSelected([]); }}
+                    title={t.label}
+                    className={`p-1.5 rounded transition-colors ${tool === t.kind ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                    {t.icon}
+                </button>
+            ))}
+            {selected.length > 0 && (
+                <>
+                    <div className="w-px bg-slate-700 mx-0.5" />
+                    <button onClick={duplicateSelected} title="Duplicate selection (Ctrl+D)" className="p-1.5 rounded text-slate-400 hover:text-white transition-colors">
+                        <Copy size={14} />
+                    </button>
+                    <button onClick={deleteSelected} title="Delete selection (Del)" className="p-1.5 rounded text-rose-400 hover:text-rose-300 transition-colors">
+                        <Trash2 size={14} />
+                    </button>
+                </>
+            )}
+        </div>
         <div className="absolute top-4 left-4 bg-slate-900/80 backdrop-blur px-3 py-1.5 rounded border border-slate-700 text-xs text-slate-300 pointer-events-none select-none">
             <span className="text-blue-400 font-bold">Left Drag</span> S/G to move • 
-            <span className="text-emerald-400 font-bold ml-1">Drag Space</span> to draw walls • 
-            <span className="text-rose-400 font-bold ml-1">Right Click</span> wall to delete
+            {tool === 'pan' ? (
+              <><span className="text-emerald-400 font-bold ml-1">Drag</span> to pan • <span className="text-emerald-400 font-bold">Wheel</span> to zoom • </>
+            ) : tool === 'select' ? (
+              <><span className="text-emerald-400 font-bold ml-1">Click / Box</span> to select (Shift adds) • drag to move • </>
+            ) : (
+              <><span className="text-emerald-400 font-bold ml-1">{tool === 'polygon' ? 'Click Space' : 'Drag Space'}</span> to draw {layer === 'terrain' ? `terrain ×${costMultiplier}` : layer === 'goals' ? 'goals' : tool === 'rect' ? 'walls' : tool === 'circle' ? 'circles' : 'polygons'} • </>
+            )}
+            <span className="text-rose-400 font-bold ml-1">Right Click</span> {layer === 'terrain' ? 'terrain' : layer === 'goals' ? 'goal' : 'obstacle'} to delete
+        </div>
+        {inspected && inspection && (
+            <div className="absolute top-14 left-4 w-52 bg-slate-900/90 backdrop-blur p-2 rounded border border-slate-700 text-[11px] text-slate-300 font-mono">
+                <div className="flex items-center justify-between mb-1 font-sans">
+                    <span className="font-bold text-white">Node #{inspected.id}</span>
+                    {pinnedNode !== null ? (
+                        <button onClick={() => setPinnedNode(null)} title="Unpin (Esc)" className="p-0.5 rounded text-slate-400 hover:text-white transition-colors">
+                            <X size={12} />
+                        </button>
+                    ) : (
+                        <span className="flex items-center gap-1 text-[10px] text-slate-500" title="Click the node (select tool, or while running) to keep it inspected">
+                            <Pin size={10} /> click to pin
+                        </span>
+                    )}
+                </div>
+                <div>pos ({inspected.x.toFixed(1)}, {inspected.y.toFixed(1)})</div>
+                {inspected.heading !== undefined && <div>heading {((inspected.heading * 180) / Math.PI).toFixed(0)}°</div>}
+                <div>cost {inspected.cost.toFixed(2)}</div>
+                <div>
+                    parent {inspected.pruned ? <span className="text-rose-400">pruned</span> : inspected.parentId === null ? 'root' : `#${inspected.parentId}`}
+                    {inspected.tree && <span className="text-slate-500"> ({inspected.tree} tree)</span>}
+                </div>
+                <div className="break-words">
+                    children {inspected.children.length === 0 ? 'none' : inspected.children.slice(0, INSPECTOR_CHILDREN).map(id => `#${id}`).join(' ')}
+                    {inspected.children.length > INSPECTOR_CHILDREN && <span className="text-slate-500"> +{inspected.children.length - INSPECTOR_CHILDREN}</span>}
+                </div>
+                {algorithm === 'RRT*' && <div>rewired {inspected.rewires ?? 0}×</div>}
+                <div className="mt-1 pt-1 border-t border-slate-700">
+                    <div><span className="text-amber-300">■</span> depth {inspection.ancestry.length - 1}</div>
+                    <div><span className="text-fuchsia-400">■</span> subtree {inspection.subtree.length} node{inspection.subtree.length === 1 ? '' : 's'}</div>
+                </div>
+            </div>
+        )}
+        <div className="absolute bottom-4 left-4 flex flex-col items-start gap-1">
+            {!fullyVisible && (
+                <canvas
+                    ref={minimapRef}
+                    width={MINIMAP_WIDTH}
+                    height={Math.max(1, Math.round((MINIMAP_WIDTH * height) / width))}
+                    title="Minimap (drag to move the view)"
+                    className="rounded border border-slate-700 cursor-pointer"
+                    onMouseDown={handleMinimapMouse}
+                    onMouseMove={handleMinimapMouse}
+                />
+            )}
+            <div className="flex items-center gap-1 bg-slate-900/80 backdrop-blur p-1 rounded border border-slate-700 text-[10px] text-slate-400">
+                <button onClick={() => zoomBy(1 / 1.25)} title="Zoom out" className="px-1.5 rounded hover:text-white transition-colors">−</button>
+                <span className="w-10 text-center">{Math.round(view.zoom * 100)}%</span>
+                <button onClick={() => zoomBy(1.25)} title="Zoom in (or use the mouse wheel)" className="px-1.5 rounded hover:text-white transition-colors">+</button>
+                <button onClick={() => setView(fitView(width, height))} title="Fit the world to the view" className="p-1 rounded hover:text-white transition-colors">
+                    <Maximize size={12} />
+                </button>
+            </div>
+        </div>
+        {exportError && (
+            <div className="absolute bottom-14 right-4 max-w-xs flex items-start gap-1 bg-slate-900/90 backdrop-blur px-2 py-1 rounded border border-rose-800 text-[10px] text-rose-400">
+                <span className="break-words">{exportError}</span>
+                <button onClick={() => setExportError(null)} title="Dismiss" className="text-slate-400 hover:text-white transition-colors">
+                    <X size={12} />
+                </button>
+            </div>
+        )}
+        <div className="absolute bottom-4 right-4 flex gap-1 bg-slate-900/80 backdrop-blur p-1 rounded border border-slate-700">
+            <button onClick={exportSvg} title="Export as SVG (grouped layers, no editing overlays)" className="p-1.5 rounded text-slate-400 hover:text-white transition-colors">
+                <FileCode size={14} />
+            </button>
+            <button onClick={exportPng} title={`Export as PNG (${Number(pngScale(width, height).toFixed(2))}x resolution)`} className="p-1.5 rounded text-slate-400 hover:text-white transition-colors">
+                <ImageDown size={14} />
+            </button>
+            <button
+                onClick={toggleRecording}
+                title={recording ? 'Stop recording and save WebM' : 'Record the canvas to WebM'}
+                className={`p-1.5 rounded transition-colors ${recording ? 'text-rose-400 hover:text-rose-300 animate-pulse' : 'text-slate-400 hover:text-white'}`}
+            >
+                {recording ? <CircleStop size={14} /> : <Video size={14} />}
+            </button>
         </div>
     </div>
   );
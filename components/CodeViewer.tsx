@@ -1,11 +1,13 @@
 
 import React from 'react';
-import { AlgorithmType, CodeStep } from '../types';
+import { AlgorithmType, CodeStep, TreeSide } from '../types';
 import { X, Code, MessageSquareQuote } from 'lucide-react';
 
 interface CodeViewerProps {
   algorithm: AlgorithmType;
   currentStep: CodeStep;
+  activeTree: TreeSide | null;
+  informed: boolean;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -14,7 +16,7 @@ const RRT_CODE = [
   { 
     id: 'SAMPLE', 
     text: 'q_rand = Sample(space)', 
-    comment: 'Randomly select a coordinate in the free space. To ensure we eventually reach the target, we occasionally (5-10% of the time) pick the Goal position directly as our random sample.' 
+    comment: 'Randomly select a coordinate in the free space. To ensure we eventually reach the target, we occasionally (5-10% of the time) pick a point inside a goal region as our random sample.' 
   },
   { 
     id: 'NEAREST', 
@@ -34,7 +36,7 @@ const RRT_CODE = [
   { 
     id: 'ADD_NODE', 
     text: '    Tree.add_node(q_new)', 
-    comment: 'Success! The path is clear. We add the new point to our tree and create a parent-child relationship with the nearest node.' 
+    comment: 'Success! The path is clear. We add the new point to our tree and create a parent-child relationship with the nearest node. If it landed in a goal region, we also try a direct, collision-free edge to the goal point.' 
   },
 ];
 
@@ -62,7 +64,7 @@ const RRT_STAR_CODE = [
   { 
     id: 'NEIGHBORS', 
     text: '    neighbors = Near(tree, q_new, radius)', 
-    comment: 'Search for all existing nodes within a fixed radius of the new point. These are potential alternative parents or children for optimization.' 
+    comment: 'Search for existing nodes near the new point: within a fixed radius, within a radius that shrinks like γ·√(log n / n) as the tree grows, or simply the k = factor·log n nearest nodes. These are potential alternative parents or children for optimization.' 
   },
   { 
     id: 'CHOOSE_PARENT', 
@@ -77,14 +79,67 @@ const RRT_STAR_CODE = [
   { 
     id: 'REWIRE', 
     text: '    Rewire(tree, neighbors, q_new)', 
-    comment: 'The key optimization step: Check if any neighbors can be reached more cheaply by going through the NEW node. If so, "rewire" them to use the new node as their parent.' 
+    comment: 'The key optimization step: Check if any neighbors can be reached more cheaply by going through the NEW node. If so, "rewire" them to use the new node as their parent. A new node inside a goal region also tries a direct edge to the goal point, replacing a costlier connection to it.' 
   },
 ];
 
-const CodeViewer: React.FC<CodeViewerProps> = ({ algorithm, currentStep, isOpen, onClose }) => {
+const RRT_CONNECT_CODE = [
+  { 
+    id: 'SAMPLE', 
+    text: 'q_rand = Sample(space)', 
+    comment: 'Pick a uniformly random point. RRT-Connect needs no goal bias: the second tree, rooted at every goal point, already pulls the search towards it.' 
+  },
+  { 
+    id: 'NEAREST', 
+    text: 'q_near = Nearest(T_a, q_rand)', 
+    comment: 'Find the closest node to the sample, but only in the tree whose turn it is (T_a). The trees take turns, so this alternates between the start tree and the goal tree.' 
+  },
+  { 
+    id: 'STEER', 
+    text: 'q_new = Steer(q_near, q_rand, step_size)', 
+    comment: 'Take one step of at most "Step Size" from q_near towards the sample, exactly as in plain RRT.' 
+  },
+  { 
+    id: 'COLLISION_CHECK', 
+    text: 'if CollisionFree(obstacles, q_near, q_new):', 
+    comment: 'If the step hits an obstacle, T_a is "trapped" for this iteration and we skip straight to swapping the trees.' 
+  },
+  { 
+    id: 'ADD_NODE', 
+    text: '    T_a.add_node(q_new)', 
+    comment: 'The step is free, so q_new joins T_a. It now becomes the target that the other tree will greedily try to reach.' 
+  },
+  { 
+    id: 'CONNECT', 
+    text: '    if Connect(T_b, q_new) == REACHED: return Path(T_a, T_b)', 
+    comment: 'The greedy part: T_b keeps extending from its nearest node towards q_new, one step at a time, until it either reaches q_new (the trees meet and the path is found) or hits an obstacle (trapped).' 
+  },
+  { 
+    id: 'SWAP', 
+    text: 'Swap(T_a, T_b)', 
+    comment: 'The trees trade roles. Next iteration the other tree samples and extends while this one tries to connect, so both grow towards each other evenly.' 
+  },
+];
+
+// Informed RRT* only changes how q_rand is drawn
+const INFORMED_SAMPLE_LINE = {
+  id: 'SAMPLE',
+  text: 'q_rand = InformedSample(start, goal, c_best)',
+  comment: 'Informed RRT*: until a path exists, sample the whole space. Afterwards only points inside the ellipse with foci at start and goal and major axis c_best (the best path cost) can possibly improve the solution, so samples are drawn from that ellipse alone. It shrinks every time the path gets shorter.'
+};
+
+const CODE_LISTINGS: Record<AlgorithmType, typeof RRT_CODE> = {
+  'RRT': RRT_CODE,
+  'RRT*': RRT_STAR_CODE,
+  'RRT-Connect': RRT_CONNECT_CODE,
+};
+
+const CodeViewer: React.FC<CodeViewerProps> = ({ algorithm, currentStep, activeTree, informed, isOpen, onClose }) => {
   if (!isOpen) return null;
 
-  const codeLines = algorithm === 'RRT' ? RRT_CODE : RRT_STAR_CODE;
+  const codeLines = informed
+    ? CODE_LISTINGS[algorithm].map(line => (line.id === 'SAMPLE' ? INFORMED_SAMPLE_LINE : line))
+    : CODE_LISTINGS[algorithm];
 
   // Helper to check if line is active
   const isActive = (lineId: string) => {
@@ -108,6 +163,14 @@ const CodeViewer: React.FC<CodeViewerProps> = ({ algorithm, currentStep, isOpen,
         </button>
       </div>
 
+      {activeTree && (
+        <div className="px-4 py-1.5 bg-slate-900 border-b border-slate-800 text-[10px] text-slate-400">
+          T_a = <span className={activeTree === 'start' ? 'text-blue-400' : 'text-rose-400'}>{activeTree === 'start' ? 'start tree' : 'goal tree'}</span>
+          {' • '}
+          T_b = <span className={activeTree === 'start' ? 'text-rose-400' : 'text-blue-400'}>{activeTree === 'start' ? 'goal tree' : 'start tree'}</span>
+        </div>
+      )}
+
       {/* Code Display */}
       <div className="p-4 bg-slate-950/90 text-slate-300 space-y-1 max-h-[300px] overflow-y-auto">
         {codeLines.map((line, idx) => {
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { TrendingDown } from 'lucide-react';
+import { SolutionPoint } from '../services/timeline';
+
+export interface ConvergenceSeries {
+  label: string;
+  color: string;
+  points: SolutionPoint[]; // Every change of the best path cost, in order
+  iterations: number; // Completed iterations of the run
+  solveMs: number;
+}
+
+interface ConvergenceChartProps {
+  series: ConvergenceSeries[];
+  lowerBound: number; // |start - goal|, scaled by the cheapest terrain multiplier: no path can cost less
+  cursor: number | null; // Iteration being replayed, null while following the live run
+}
+
+type Axis = 'iteration' | 'time';
+
+// Chart area in SVG units; the element scales to its container
+const W = 640;
+const H = 170;
+const M = { left: 44, right: 14, top: 10, bottom: 22 };
+
+const formatMs = (ms: number): string => (ms < 1000 ? `${ms.toFixed(0)}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const ticks = (max: number, count: number): number[] => {
+  return Array.from({ length: count + 1 }, (_, i) => (max * i) / count);
+};
+
+// Best path cost against iterations or solve time. Solution events come at the end of an
+// iteration, so a cost logged at iteration i is plotted once i + 1 iterations are done.
+const ConvergenceChart: React.FC<ConvergenceChartProps> = ({ series, lowerBound, cursor }) => {
+  const [axis, setAxis] = useState<Axis>('iteration');
+
+  const xOf = (p: SolutionPoint) => (axis === 'iteration' ? p.iteration + 1 : p.time);
+  const xEnd = (s: ConvergenceSeries) => (axis === 'iteration' ? s.iterations : s.solveMs);
+  const xMax = Math.max(1, ...series.map(xEnd));
+
+  const costs = series.flatMap(s => s.points.map(p => p.cost));
+  const hasData = costs.length > 0;
+  const yTop = hasData ? Math.max(...costs) : lowerBound * 1.5;
+  const pad = Math.max((yTop - lowerBound) * 0.1, 5);
+  const yHi = yTop + pad;
+  const yLo = Math.max(0, lowerBound - pad);
+
+  const x = (v: number) => M.left + (v / xMax) * (W - M.left - M.right);
+  const y = (c: number) => M.top + ((yHi - c) / (yHi - yLo)) * (H - M.top - M.bottom);
+
+  // Step line: the cost holds until the next improvement, then drops. A replan cuts the tree,
+  // so the cost after it starts a new segment rather than a step from the one before.
+  const stepPath = (s: ConvergenceSeries): string => {
+    if (s.points.length === 0) return '';
+    let d = `M${x(xOf(s.points[0]))} ${y(s.points[0].cost)}`;
+    for (let i = 1; i < s.points.length; i++) {
+      const p = s.points[i];
+      d += `H${x(xOf(p))}${p.replanned ? `M${x(xOf(p))} ` : 'V'}${y(p.cost)}`;
+    }
+    return d + `H${x(Math.max(xEnd(s), xOf(s.points[s.points.length - 1])))}`;
+  };
+
+  return (
+    <div className="mt-3 px-3 py-2 rounded-lg border bg-slate-900 border-slate-800 text-xs">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-3">
+          <span className="flex items-center gap-1 text-slate-400 font-semibold uppercase tracking-wider">
+            <TrendingDown size={12} /> Convergence
+          </span>
+          {series.map(s => {
+            // Improvement is measured within the last segment: costs across a replan do not compare
+            const from = s.points.reduce((at, p, i) => (p.replanned ? i : at), 0);
+            const first = s.points[from];
+            const best = s.points[s.points.length - 1];
+            return (
+              <span key={s.label} className="text-slate-500">
+                <span style={{ color: s.color }}>{s.label}</span>{' '}
+                {first
+                  ? `${from > 0 ? 'after replan' : 'first'} ${first.cost.toFixed(0)} @ ${axis === 'iteration' ? `it ${first.iteration + 1}` : formatMs(first.time)} → best ${best.cost.toFixed(0)} (${(((best.cost - first.cost) / first.cost) * 100).toFixed(1)}%)`
+                  : 'no path yet'}
+              </span>
+            );
+          })}
+        </div>
+        <div className="flex bg-slate-800 p-0.5 rounded-md">
+          {([['iteration', 'Iterations'], ['time', 'Solve Time']] as [Axis, string][]).map(([a, label]) => (
+            <button
+              key={a}
+              onClick={() => setAxis(a)}
+              className={`px-2 py-0.5 text-[10px] rounded transition-colors ${axis === a ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto block">
+        {/* Axes and grid */}
+        {ticks(xMax, 5).map(v => (
+          <g key={`x${v}`}>
+            <line x1={x(v)} x2={x(v)} y1={M.top} y2={H - M.bottom} stroke="#1e293b" />
+            <text x={x(v)} y={H - 6} fill="#64748b" fontSize="10" textAnchor="middle">
+              {axis === 'iteration' ? Math.round(v) : formatMs(v)}
+            </text>
+          </g>
+        ))}
+        {ticks(yHi - yLo, 3).map(v => (
+          <g key={`y${v}`}>
+            <line x1={M.left} x2={W - M.right} y1={y(yLo + v)} y2={y(yLo + v)} stroke="#1e293b" />
+            <text x={M.left - 6} y={y(yLo + v)} fill="#64748b" fontSize="10" textAnchor="end" dominantBaseline="central">
+              {(yLo + v).toFixed(0)}
+            </text>
+          </g>
+        ))}
+
+        {/* Straight-line lower bound */}
+        <line x1={M.left} x2={W - M.right} y1={y(lowerBound)} y2={y(lowerBound)} stroke="#94a3b8" strokeDasharray="4 3" />
+        <text x={W - M.right - 2} y={y(lowerBound) - 4} fill="#94a3b8" fontSize="10" textAnchor="end">
+          lower bound {lowerBound.toFixed(0)}
+        </text>
+
+        {/* Replay position */}
+        {axis === 'iteration' && cursor !== null && (
+          <line x1={x(cursor)} x2={x(cursor)} y1={M.top} y2={H - M.bottom} stroke="#f59e0b" />
+        )}
+
+        {series.map(s => (
+          <g key={s.label}>
+            <path d={stepPath(s)} fill="none" stroke={s.color} strokeWidth="2" />
+            {s.points.map((p, i) => (
+              <circle
+                key={p.iteration}
+                cx={x(xOf(p))} cy={y(p.cost)} r={i === 0 ? 4.5 : p.replanned ? 3.5 : 2.5}
+                fill={i === 0 ? '#f8fafc' : p.replanned ? '#0f172a' : s.color}
+                stroke={s.color} strokeWidth={i === 0 || p.replanned ? 2 : 0}
+              >
+                <title>
+                  {`${s.label}: ${i === 0 ? 'first solution' : p.replanned ? 'after replan' : 'improved'} ${p.cost.toFixed(1)} at iteration ${p.iteration + 1}, ${formatMs(p.time)}`}
+                </title>
+              </circle>
+            ))}
+          </g>
+        ))}
+
+        {!hasData && (
+          <text x={(M.left + W - M.right) / 2} y={H / 2} fill="#64748b" fontSize="11" textAnchor="middle">
+            The chart starts at the first solution
+          </text>
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default ConvergenceChart;
@@ -1,35 +1,138 @@
-import React from 'react';
-import { Activity, Route, MapPin } from 'lucide-react';
+import React, { useState } from 'react';
+import { Activity, Route, MapPin, Search, ShieldAlert, ChevronDown, ChevronUp } from 'lucide-react';
+import { CollisionMode, CollisionStats, QueryStats, SolverCounters, SpatialIndexType } from '../types';
 
 interface StatsProps {
   nodeCount: number;
   pathLength: number | null;
   found: boolean;
   algorithm: string;
+  spatialIndex: SpatialIndexType;
+  queryStats: QueryStats | null;
+  collisionMode: CollisionMode;
+  collisionStats: CollisionStats | null;
+  informedArea: number | null;
+  worldArea: number;
+  rewireRadius: number | null;
+  rewireK: number | null;
+  processedLength: number | null;
+  counters: SolverCounters | null;
+  compact?: boolean; // Narrower layout for the side-by-side view
 }
 
-const Stats: React.FC<StatsProps> = ({ nodeCount, pathLength, found, algorithm }) => {
+// Cells of the expanded counters panel; ones that do not apply (RRT*-only, no replanning yet) are dimmed
+const counterCells = (counters: SolverCounters | null, collisionStats: CollisionStats | null, isStar: boolean) => {
+  const pct = (n: number, of: number) => (of > 0 ? `${((n / of) * 100).toFixed(1)}%` : '');
+  const c = counters ?? {
+    attempts: 0, rejections: 0, neighborsExamined: 0, parentChanges: 0, rewires: 0, costPropagations: 0,
+    edgesCut: 0, reconnected: 0, pruned: 0,
+  };
+  return [
+    { label: 'Attempts', value: c.attempts, detail: 'samples drawn', hint: 'Iterations started, including ones whose sample was rejected', applies: true },
+    { label: 'Rejected', value: c.rejections, detail: pct(c.rejections, c.attempts), hint: 'Extensions blocked by an obstacle', applies: true },
+    { label: 'Collision Checks', value: collisionStats?.segmentChecks ?? 0, detail: 'edges tested', hint: 'Calls to the collision checker', applies: true },
+    { label: 'Neighbors', value: c.neighborsExamined, detail: c.attempts > 0 ? `${(c.neighborsExamined / c.attempts).toFixed(1)} / attempt` : '', hint: 'Nodes in the Near sets examined by CHOOSE_PARENT and REWIRE', applies: isStar },
+    { label: 'Parent Changes', value: c.parentChanges, detail: '', hint: 'CHOOSE_PARENT found a cheaper parent than the nearest node', applies: isStar },
+    { label: 'Rewires', value: c.rewires, detail: '', hint: 'Existing nodes re-parented through a new node', applies: isStar },
+    { label: 'Cost Updates', value: c.costPropagations, detail: 'descendants', hint: 'Descendant costs rewritten by updateCost after rewires', applies: isStar },
+    { label: 'Pruned', value: c.pruned, detail: `${c.edgesCut} cut, ${c.reconnected} reattached`, hint: 'Replanning: edges blocked by edited obstacles, orphans reattached and nodes pruned', applies: c.edgesCut > 0 },
+  ];
+};
+
+const Stats: React.FC<StatsProps> = ({
+  nodeCount, pathLength, found, algorithm, spatialIndex, queryStats, collisionMode, collisionStats, informedArea, worldArea, rewireRadius, rewireK, processedLength, counters, compact = false
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const perQuery = queryStats && queryStats.queries > 0
+    ? {
+        checks: queryStats.distanceChecks / queryStats.queries,
+        micros: (queryStats.queryMs * 1000) / queryStats.queries,
+      }
+    : null;
+
   return (
-    <div className="grid grid-cols-3 gap-4 mb-6">
-      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col items-center">
-        <Activity className="w-5 h-5 text-blue-400 mb-1" />
-        <span className="text-xs text-slate-400 uppercase tracking-wider">Nodes</span>
-        <span className="text-xl font-bold text-white">{nodeCount}</span>
-      </div>
-      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col items-center">
-        <Route className="w-5 h-5 text-emerald-400 mb-1" />
-        <span className="text-xs text-slate-400 uppercase tracking-wider">Path Cost</span>
-        <span className="text-xl font-bold text-white">
-          {pathLength ? pathLength.toFixed(0) : '--'}
-        </span>
-      </div>
-      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col items-center">
-        <MapPin className={`w-5 h-5 mb-1 ${found ? 'text-emerald-400' : 'text-rose-400'}`} />
-        <span className="text-xs text-slate-400 uppercase tracking-wider">Status</span>
-        <span className={`text-xl font-bold ${found ? 'text-emerald-400' : 'text-slate-500'}`}>
-          {found ? 'FOUND' : 'SEARCHING'}
-        </span>
+    <div className={compact ? 'mb-3' : 'mb-6'}>
+      <div className={compact ? 'grid grid-cols-3 gap-2' : 'grid grid-cols-5 gap-4'}>
+        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col items-center">
+          <Activity className="w-5 h-5 text-blue-400 mb-1" />
+          <span className="text-xs text-slate-400 uppercase tracking-wider">Nodes</span>
+          <span className="text-xl font-bold text-white">{nodeCount}</span>
+          {rewireRadius !== null && (
+            <span className="text-[10px] text-slate-500">
+              {rewireK !== null ? `k = ${rewireK}, ` : ''}rewire r = {rewireRadius.toFixed(1)}px
+            </span>
+          )}
+        </div>
+        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col items-center">
+          <Route className="w-5 h-5 text-emerald-400 mb-1" />
+          <span className="text-xs text-slate-400 uppercase tracking-wider">Path Cost</span>
+          <span className="text-xl font-bold text-white">
+            {pathLength ? pathLength.toFixed(0) : '--'}
+          </span>
+          {pathLength !== null && processedLength !== null && (
+            <span className="text-[10px] text-cyan-400">
+              processed {processedLength.toFixed(0)} ({(((processedLength - pathLength) / pathLength) * 100).toFixed(1)}%)
+            </span>
+          )}
+          {informedArea !== null && (
+            <span className="text-[10px] text-slate-500">
+              ellipse {(informedArea / 1000).toFixed(1)}k px² ({((informedArea / worldArea) * 100).toFixed(0)}% of map)
+            </span>
+          )}
+        </div>
+        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col items-center">
+          <MapPin className={`w-5 h-5 mb-1 ${found ? 'text-emerald-400' : 'text-rose-400'}`} />
+          <span className="text-xs text-slate-400 uppercase tracking-wider">Status</span>
+          <span className={`text-xl font-bold ${found ? 'text-emerald-400' : 'text-slate-500'}`}>
+            {found ? 'FOUND' : 'SEARCHING'}
+          </span>
+        </div>
+        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col items-center">
+          <Search className="w-5 h-5 text-amber-400 mb-1" />
+          <span className="text-xs text-slate-400 uppercase tracking-wider">
+            {spatialIndex === 'grid' ? 'Grid Index' : 'Linear Scan'}
+          </span>
+          <span className="text-xl font-bold text-white">
+            {perQuery ? `${perQuery.micros.toFixed(1)}µs` : '--'}
+          </span>
+          <span className="text-[10px] text-slate-500">
+            {perQuery ? `${perQuery.checks.toFixed(0)} dist checks / query` : 'per query'}
+          </span>
+        </div>
+        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col items-center">
+          <ShieldAlert className="w-5 h-5 text-rose-400 mb-1" />
+          <span className="text-xs text-slate-400 uppercase tracking-wider">
+            {collisionMode === 'exact' ? 'Exact Checks' : 'Sampled Checks'}
+          </span>
+          <span className="text-xl font-bold text-white">
+            {collisionStats ? collisionStats.segmentChecks : '--'}
+          </span>
+          <span className="text-[10px] text-slate-500">
+            {collisionStats
+              ? `${collisionStats.primitiveTests} ${collisionMode === 'exact' ? 'exact tests' : 'point samples'}`
+              : 'edge tests'}
+          </span>
+        </div>
       </div>
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="mt-1 flex items-center gap-1 text-[10px] text-slate-500 hover:text-slate-300 transition-colors"
+      >
+        {expanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />} Solver counters
+      </button>
+      {expanded && (
+        <div className={`mt-1 grid gap-2 ${compact ? 'grid-cols-4' : 'grid-cols-8'}`}>
+          {counterCells(counters, collisionStats, algorithm === 'RRT*').map(cell => (
+            <div key={cell.label} title={cell.hint} className={`bg-slate-800/60 px-3 py-2 rounded border border-slate-700/60 ${cell.applies ? '' : 'opacity-40'}`}>
+              <div className="text-[10px] text-slate-400 uppercase tracking-wider truncate">{cell.label}</div>
+              <div className="text-sm font-bold text-white">{cell.value}</div>
+              {cell.detail && <div className="text-[10px] text-slate-500 truncate">{cell.detail}</div>}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, History, Radio } from 'lucide-react';
+
+interface TimelineProps {
+  total: number; // Completed iterations of the current run
+  position: number | null; // Iteration being replayed, null while following the live run
+  markers: { iteration: number; cost: number }[]; // Iterations where the path cost changed
+  onSeek: (iteration: number | null) => void;
+}
+
+const Timeline: React.FC<TimelineProps> = ({ total, position, markers, onSeek }) => {
+  const shown = position ?? total;
+  const isLive = position === null;
+
+  const seek = (iteration: number) => {
+    const clamped = Math.max(0, Math.min(total, iteration));
+    onSeek(clamped === total ? null : clamped);
+  };
+
+  return (
+    <div className={`mt-3 flex items-center gap-3 px-3 py-2 rounded-lg border text-xs transition-colors ${
+      isLive ? 'bg-slate-900 border-slate-800' : 'bg-amber-500/5 border-amber-500/40'
+    }`}>
+      <History size={14} className={isLive ? 'text-slate-500' : 'text-amber-400'} />
+
+      <button
+        onClick={() => seek(shown - 1)}
+        disabled={total === 0 || shown === 0}
+        title="Previous iteration"
+        className="p-1 rounded text-slate-400 hover:text-white disabled:opacity-40"
+      >
+        <ChevronLeft size={14} />
+      </button>
+
+      <div className="relative flex-1 h-5 flex items-center">
+        <input
+          type="range" min="0" max={Math.max(total, 1)} step="1" value={shown}
+          onChange={(e) => seek(Number(e.target.value))}
+          disabled={total === 0}
+          className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500 disabled:opacity-50"
+        />
+        {/* Solution ticks: click to jump to the iteration right after the path changed */}
+        {total > 0 && markers.map(m => (
+          <button
+            key={m.iteration}
+            onClick={() => seek(m.iteration + 1)}
+            title={`Iteration ${m.iteration + 1}: path cost ${m.cost.toFixed(1)}`}
+            className="absolute top-0 w-1 h-1.5 -ml-0.5 rounded-sm bg-emerald-400 hover:bg-emerald-300"
+            style={{ left: `${((m.iteration + 1) / total) * 100}%` }}
+          />
+        ))}
+      </div>
+
+      <button
+        onClick={() => seek(shown + 1)}
+        disabled={isLive}
+        title="Next iteration"
+        className="p-1 rounded text-slate-400 hover:text-white disabled:opacity-40"
+      >
+        <ChevronRight size={14} />
+      </button>
+
+      <span className="font-mono text-slate-400 min-w-[120px] text-right">
+        {shown} / {total}
+      </span>
+
+      <button
+        onClick={() => onSeek(null)}
+        disabled={isLive}
+        title="Back to the live run"
+        className={`flex items-center gap-1 px-2 py-1 rounded transition-colors ${
+          isLive ? 'text-emerald-400' : 'bg-slate-800 text-slate-300 hover:text-white'
+        }`}
+      >
+        <Radio size={12} /> Live
+      </button>
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,391 @@
+import { CostRegion, EdgeEnd, Ellipse, Goal, Node, Obstacle, OccupancyGrid, Point, TreeSide } from '../types';
+import { obstacleBounds } from '../utils/geo';
+import { curvePoints } from '../utils/curves';
+
+// The subset of CanvasRenderingContext2D the scene is drawn with. The live canvas,
+// PNG export and SvgContext (vector export) all implement it, so every output
+// shares one set of drawing code and colours. Groups are only meaningful for SVG.
+export interface DrawTarget {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  lineWidth: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  imageSmoothingEnabled: boolean;
+  beginPath(): void;
+  closePath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  rect(x: number, y: number, w: number, h: number): void;
+  arc(x: number, y: number, r: number, startAngle: number, endAngle: number): void;
+  ellipse(x: number, y: number, rx: number, ry: number, rotation: number, startAngle: number, endAngle: number): void;
+  fill(): void;
+  stroke(): void;
+  fillRect(x: number, y: number, w: number, h: number): void;
+  strokeRect(x: number, y: number, w: number, h: number): void;
+  fillText(text: string, x: number, y: number): void;
+  setLineDash(segments: number[]): void;
+  drawImage(image: HTMLCanvasElement, x: number, y: number, w: number, h: number): void;
+  beginGroup?(id: string): void;
+  endGroup?(): void;
+}
+
+// Path building calls shared by DrawTarget and Path2D, so cached tree geometry is traced
+// by the same helpers as a direct draw
+export type PathSink = Pick<DrawTarget, 'moveTo' | 'lineTo' | 'arc'>;
+
+export interface SceneDrawing {
+  width: number;
+  height: number;
+  nodes: Node[];
+  path: number[]; // Node IDs
+  obstacles: Obstacle[];
+  occupancy: OccupancyGrid | null;
+  costRegions: CostRegion[];
+  occupancyLayer?: HTMLCanvasElement | null; // Pre-rendered occupancy bitmap, built on demand if absent
+  start: Point;
+  goals: Goal[];
+  tempSample: Point | null;
+  tempNewPoint: EdgeEnd | null;
+  tempNearest: Node | null;
+  informedEllipse: Ellipse | null;
+  processedPath: Point[] | null;
+}
+
+// Adds the outline of an obstacle to the current path
+export const traceObstacle = (ctx: DrawTarget, obs: Obstacle) => {
+  switch (obs.kind) {
+    case 'rect':
+      ctx.rect(obs.x, obs.y, obs.w, obs.h);
+      break;
+    case 'circle':
+      ctx.moveTo(obs.x + obs.r, obs.y);
+      ctx.arc(obs.x, obs.y, obs.r, 0, Math.PI * 2);
+      break;
+    case 'polygon':
+      obs.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      break;
+  }
+};
+
+// One pixel per cell, occupied cells in the obstacle colour and free cells transparent.
+// Drawn scaled by the grid resolution.
+export const renderOccupancy = (grid: OccupancyGrid): HTMLCanvasElement => {
+  const image = new ImageData(grid.cols, grid.rows);
+  for (let i = 0; i < grid.cells.length; i++) {
+    if (grid.cells[i] !== 1) continue;
+    image.data[4 * i] = 0x33; // slate-700
+    image.data[4 * i + 1] = 0x41;
+    image.data[4 * i + 2] = 0x55;
+    image.data[4 * i + 3] = 255;
+  }
+  const layer = document.createElement('canvas');
+  layer.width = grid.cols;
+  layer.height = grid.rows;
+  layer.getContext('2d')!.putImageData(image, 0, 0);
+  return layer;
+};
+
+// Continues the current path along the edge into `to`: its curve in the car modes,
+// else a straight line. The path must already be at `from`.
+const traceEdge = (ctx: PathSink, from: EdgeEnd, to: EdgeEnd) => {
+  if (!to.edge) {
+    ctx.lineTo(to.x, to.y);
+    return;
+  }
+  const points = curvePoints({ x: from.x, y: from.y, heading: from.heading ?? 0 }, to.edge);
+  for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+};
+
+// Arrow from `p` pointing along `heading`
+const traceHeading = (ctx: PathSink, p: Point, heading: number, length: number) => {
+  const tip = { x: p.x + length * Math.cos(heading), y: p.y + length * Math.sin(heading) };
+  ctx.moveTo(p.x, p.y);
+  ctx.lineTo(tip.x, tip.y);
+  for (const side of [-1, 1]) {
+    ctx.moveTo(tip.x, tip.y);
+    ctx.lineTo(tip.x - length * 0.45 * Math.cos(heading + side * 0.5), tip.y - length * 0.45 * Math.sin(heading + side * 0.5));
+  }
+};
+
+// Expensive terrain is tinted amber, cheap terrain cyan; the further from 1, the stronger
+export const costRegionFill = (multiplier: number): string => {
+  const alpha = Math.min(0.45, 0.08 + 0.12 * Math.abs(Math.log2(multiplier))).toFixed(2);
+  return multiplier >= 1 ? `rgba(217, 119, 6, ${alpha})` : `rgba(34, 211, 238, ${alpha})`; // amber-600 / cyan-400
+};
+
+const TREE_COLORS: Record<TreeSide, string> = {
+  start: 'rgba(96, 165, 250, 0.7)', // blue-400
+  goal: 'rgba(248, 113, 113, 0.7)', // red-400
+};
+
+// --- Tree geometry, shared with the cached TreeLayer ---
+
+// RRT-Connect: start tree in blue, goal tree in red
+export const edgeColor = (node: Node): string => (node.tree ? TREE_COLORS[node.tree] : '#64748b'); // slate-500
+export const NODE_COLOR = '#94a3b8'; // slate-400
+export const HEADING_COLOR = 'rgba(148, 163, 184, 0.6)'; // slate-400, faint
+// Node dots are only drawn below this many nodes, otherwise too cluttered
+export const NODE_DOT_LIMIT = 1000;
+
+// Edge from the node's parent, as its own subpath
+export const traceTreeEdge = (ctx: PathSink, nodes: Node[], node: Node) => {
+  const parent = nodes[node.parentId!];
+  ctx.moveTo(parent.x, parent.y);
+  traceEdge(ctx, parent, node);
+};
+
+export const traceNodeDot = (ctx: PathSink, node: Node) => {
+  ctx.moveTo(node.x + 1.5, node.y);
+  ctx.arc(node.x, node.y, 1.5, 0, Math.PI * 2);
+};
+
+// Car modes: the heading the node was reached in
+export const traceNodeHeading = (ctx: PathSink, node: Node) => {
+  if (node.heading !== undefined) traceHeading(ctx, node, node.heading, 7);
+};
+
+const group = (ctx: DrawTarget, id: string, draw: () => void) => {
+  ctx.beginGroup?.(id);
+  draw();
+  ctx.endGroup?.();
+};
+
+// Draws everything except the editing overlays (selection, previews), back to front.
+// The live canvas draws the three layers on separate canvases instead.
+export const drawScene = (ctx: DrawTarget, scene: SceneDrawing) => {
+  drawStaticLayer(ctx, scene);
+  drawTreeLayer(ctx, scene);
+  drawOverlayLayer(ctx, scene);
+};
+
+// Map, terrain, obstacles and goal regions: changes only on edits
+export const drawStaticLayer = (ctx: DrawTarget, scene: SceneDrawing) => {
+  const { width, height, obstacles, occupancy, costRegions, goals } = scene;
+
+  group(ctx, 'background', () => {
+    ctx.fillStyle = '#0f172a'; // slate-900 matches bg
+    ctx.fillRect(0, 0, width, height);
+  });
+
+  // Bitmap Map
+  if (occupancy) {
+    group(ctx, 'map', () => {
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(scene.occupancyLayer ?? renderOccupancy(occupancy), 0, 0, occupancy.cols * occupancy.resolution, occupancy.rows * occupancy.resolution);
+      ctx.imageSmoothingEnabled = true;
+    });
+  }
+
+  // Terrain under the obstacles, labelled with its multiplier
+  if (costRegions.length > 0) {
+    group(ctx, 'cost-regions', () => {
+      costRegions.forEach(region => {
+        ctx.fillStyle = costRegionFill(region.multiplier);
+        ctx.beginPath();
+        traceObstacle(ctx, region.shape);
+        ctx.fill();
+      });
+      ctx.font = '10px Arial';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = 'rgba(248, 250, 252, 0.7)'; // slate-50
+      costRegions.forEach(region => {
+        const b = obstacleBounds(region.shape);
+        ctx.fillText(`×${region.multiplier}`, (b.minX + b.maxX) / 2, (b.minY + b.maxY) / 2);
+      });
+    });
+  }
+
+  group(ctx, 'obstacles', () => {
+    ctx.fillStyle = '#334155'; // slate-700
+    ctx.strokeStyle = '#475569'; // slate-600
+    ctx.lineWidth = 1;
+    obstacles.forEach(obs => {
+      ctx.beginPath();
+      traceObstacle(ctx, obs);
+      ctx.fill();
+      ctx.stroke();
+    });
+  });
+
+  // Where each goal counts as reached
+  group(ctx, 'goal-regions', () => {
+    ctx.fillStyle = 'rgba(239, 68, 68, 0.08)'; // red-500, faint
+    ctx.strokeStyle = 'rgba(239, 68, 68, 0.6)';
+    ctx.setLineDash([4, 4]);
+    goals.forEach(goal => {
+      ctx.beginPath();
+      traceObstacle(ctx, goal.region);
+      ctx.fill();
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+  });
+};
+
+// Edges and nodes, one batched path per colour
+export const drawTreeLayer = (ctx: DrawTarget, scene: SceneDrawing) => {
+  const { nodes } = scene;
+  group(ctx, 'tree-edges', () => {
+    ctx.lineWidth = 1;
+    const colors = new Set(nodes.map(edgeColor));
+    colors.forEach(color => {
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      nodes.forEach(node => {
+        if (node.parentId !== null && edgeColor(node) === color) traceTreeEdge(ctx, nodes, node);
+      });
+      ctx.stroke();
+    });
+  });
+
+  if (nodes.length < NODE_DOT_LIMIT) {
+    group(ctx, 'tree-nodes', () => {
+      ctx.fillStyle = NODE_COLOR;
+      ctx.beginPath();
+      nodes.forEach(node => {
+        if (!node.pruned) traceNodeDot(ctx, node);
+      });
+      ctx.fill();
+
+      ctx.strokeStyle = HEADING_COLOR;
+      ctx.beginPath();
+      nodes.forEach(node => {
+        if (!node.pruned) traceNodeHeading(ctx, node);
+      });
+      ctx.stroke();
+    });
+  }
+};
+
+// Informed ellipse, step markers, the path and the endpoints: redrawn on every update
+export const drawOverlayLayer = (ctx: DrawTarget, scene: SceneDrawing) => {
+  const { nodes, path, start, goals, tempSample, tempNewPoint, tempNearest, informedEllipse, processedPath } = scene;
+
+  // Informed RRT* sampling region
+  if (informedEllipse) {
+    group(ctx, 'informed-region', () => {
+      ctx.fillStyle = 'rgba(16, 185, 129, 0.06)'; // emerald-500, faint
+      ctx.strokeStyle = 'rgba(16, 185, 129, 0.6)';
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      ctx.ellipse(informedEllipse.cx, informedEllipse.cy, informedEllipse.rx, informedEllipse.ry, informedEllipse.angle, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.setLineDash([]);
+    });
+  }
+
+  // --- Visualization of Micro-Steps ---
+  group(ctx, 'micro-step', () => {
+    ctx.font = '10px Arial';
+    ctx.textAlign = 'start';
+    ctx.textBaseline = 'alphabetic';
+
+    // Temp Sample (Random Point)
+    if (tempSample) {
+      ctx.fillStyle = '#f59e0b'; // amber-500
+      ctx.beginPath();
+      ctx.arc(tempSample.x, tempSample.y, 4, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillText('q_rand', tempSample.x + 8, tempSample.y);
+    }
+
+    // Line to Nearest
+    if (tempNearest && tempSample) {
+      ctx.strokeStyle = 'rgba(245, 158, 11, 0.3)'; // faint amber
+      ctx.setLineDash([2, 2]);
+      ctx.beginPath();
+      ctx.moveTo(tempNearest.x, tempNearest.y);
+      ctx.lineTo(tempSample.x, tempSample.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Highlight nearest node
+      ctx.strokeStyle = '#f59e0b';
+      ctx.beginPath();
+      ctx.arc(tempNearest.x, tempNearest.y, 6, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    // Candidate Edge (Steer)
+    if (tempNewPoint && tempNearest) {
+      ctx.strokeStyle = '#fbbf24'; // amber-400 brighter
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(tempNearest.x, tempNearest.y);
+      traceEdge(ctx, tempNearest, tempNewPoint);
+      if (tempNewPoint.heading !== undefined) traceHeading(ctx, tempNewPoint, tempNewPoint.heading, 10);
+      ctx.stroke();
+      ctx.lineWidth = 1;
+
+      ctx.fillStyle = '#fbbf24';
+      ctx.beginPath();
+      ctx.arc(tempNewPoint.x, tempNewPoint.y, 3, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillText('q_new', tempNewPoint.x + 8, tempNewPoint.y);
+    }
+  });
+
+  group(ctx, 'path', () => {
+    // Raw path (dimmed when a processed version is shown on top)
+    if (path.length > 0) {
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = processedPath ? 'rgba(16, 185, 129, 0.45)' : '#10b981'; // emerald-500
+      ctx.beginPath();
+      const startNode = nodes[path[0]];
+      ctx.moveTo(startNode.x, startNode.y);
+      for (let i = 1; i < path.length; i++) {
+        traceEdge(ctx, nodes[path[i - 1]], nodes[path[i]]);
+      }
+      ctx.stroke();
+    }
+
+    // Processed Path
+    if (processedPath && processedPath.length > 1) {
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = '#22d3ee'; // cyan-400
+      ctx.beginPath();
+      ctx.moveTo(processedPath[0].x, processedPath[0].y);
+      for (let i = 1; i < processedPath.length; i++) {
+        ctx.lineTo(processedPath[i].x, processedPath[i].y);
+      }
+      ctx.stroke();
+    }
+    ctx.lineWidth = 1;
+  });
+
+  group(ctx, 'endpoints', () => {
+    // Start, with the car's initial heading
+    if (nodes[0]?.heading !== undefined) {
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      traceHeading(ctx, start, nodes[0].heading, 18);
+      ctx.stroke();
+      ctx.lineWidth = 1;
+    }
+    ctx.fillStyle = '#3b82f6'; // blue-500
+    ctx.beginPath();
+    ctx.arc(start.x, start.y, 8, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    ctx.font = '10px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('S', start.x, start.y);
+
+    // Goals, numbered when there are several
+    goals.forEach((goal, i) => {
+      ctx.fillStyle = '#ef4444'; // red-500
+      ctx.beginPath();
+      ctx.arc(goal.x, goal.y, 8, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = 'white';
+      ctx.fillText(goals.length > 1 ? `G${i + 1}` : 'G', goal.x, goal.y);
+    });
+  });
+};
@@ -0,0 +1,153 @@
+import { DrawTarget } from './drawScene';
+
+const FULL_TURN = Math.PI * 2;
+
+const fmt = (n: number): string => String(Math.round(n * 100) / 100);
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// SVG 1.1 tools (Inkscape, Illustrator) do not all read rgba(); split it into colour + opacity
+const paint = (style: unknown, prop: 'fill' | 'stroke'): string => {
+  const color = typeof style === 'string' ? style : '#000000';
+  const rgba = /^rgba\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\)$/.exec(color);
+  if (!rgba) return `${prop}="${escapeXml(color)}"`;
+  return `${prop}="rgb(${rgba[1]}, ${rgba[2]}, ${rgba[3]})" ${prop}-opacity="${rgba[4]}"`;
+};
+
+const TEXT_ANCHOR: Record<string, string> = { start: 'start', left: 'start', center: 'middle', end: 'end', right: 'end' };
+const BASELINE: Record<string, string> = { middle: 'central', top: 'hanging', hanging: 'hanging', bottom: 'text-after-edge' };
+
+// Records Canvas-style drawing calls as SVG elements, so drawScene can produce a
+// vector image. Only the calls drawScene makes are supported.
+export class SvgContext implements DrawTarget {
+  fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  lineWidth = 1;
+  font = '10px sans-serif';
+  textAlign: CanvasTextAlign = 'start';
+  textBaseline: CanvasTextBaseline = 'alphabetic';
+  imageSmoothingEnabled = true;
+
+  private width: number;
+  private height: number;
+  private parts: string[] = [];
+  private d = '';
+  private lineDash: number[] = [];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  beginPath() {
+    this.d = '';
+  }
+
+  closePath() {
+    this.d += 'Z';
+  }
+
+  moveTo(x: number, y: number) {
+    this.d += `M${fmt(x)} ${fmt(y)}`;
+  }
+
+  lineTo(x: number, y: number) {
+    this.d += `L${fmt(x)} ${fmt(y)}`;
+  }
+
+  rect(x: number, y: number, w: number, h: number) {
+    this.d += `M${fmt(x)} ${fmt(y)}h${fmt(w)}v${fmt(h)}h${fmt(-w)}Z`;
+  }
+
+  arc(x: number, y: number, r: number, startAngle: number, endAngle: number) {
+    this.ellipse(x, y, r, r, 0, startAngle, endAngle);
+  }
+
+  // Clockwise arc, as canvas draws it by default. A full turn is split in two
+  // because a single SVG arc cannot end where it starts.
+  ellipse(x: number, y: number, rx: number, ry: number, rotation: number, startAngle: number, endAngle: number) {
+    const cos = Math.cos(rotation), sin = Math.sin(rotation);
+    const at = (t: number) => {
+      const ex = rx * Math.cos(t), ey = ry * Math.sin(t);
+      return { x: x + ex * cos - ey * sin, y: y + ex * sin + ey * cos };
+    };
+    const sweep = Math.min(FULL_TURN, Math.max(0, endAngle - startAngle));
+    const p0 = at(startAngle);
+    this.d += `${this.d === '' ? 'M' : 'L'}${fmt(p0.x)} ${fmt(p0.y)}`;
+
+    const rot = fmt((rotation * 180) / Math.PI);
+    const arcTo = (t: number, large: boolean) => {
+      const p = at(t);
+      this.d += `A${fmt(rx)} ${fmt(ry)} ${rot} ${large ? 1 : 0} 1 ${fmt(p.x)} ${fmt(p.y)}`;
+    };
+    if (sweep >= FULL_TURN - 1e-9) {
+      arcTo(startAngle + Math.PI, false);
+      arcTo(startAngle + FULL_TURN, false);
+    } else {
+      arcTo(startAngle + sweep, sweep > Math.PI);
+    }
+  }
+
+  private dashAttr(): string {
+    return this.lineDash.length > 0 ? ` stroke-dasharray="${this.lineDash.join(' ')}"` : '';
+  }
+
+  fill() {
+    if (this.d) this.parts.push(`<path d="${this.d}" ${paint(this.fillStyle, 'fill')} stroke="none"/>`);
+  }
+
+  stroke() {
+    if (this.d) {
+      this.parts.push(`<path d="${this.d}" fill="none" ${paint(this.strokeStyle, 'stroke')} stroke-width="${fmt(this.lineWidth)}"${this.dashAttr()}/>`);
+    }
+  }
+
+  fillRect(x: number, y: number, w: number, h: number) {
+    this.parts.push(`<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(w)}" height="${fmt(h)}" ${paint(this.fillStyle, 'fill')}/>`);
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number) {
+    this.parts.push(
+      `<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(w)}" height="${fmt(h)}" fill="none" ${paint(this.strokeStyle, 'stroke')} stroke-width="${fmt(this.lineWidth)}"${this.dashAttr()}/>`
+    );
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const anchor = TEXT_ANCHOR[this.textAlign] ?? 'start';
+    const baseline = BASELINE[this.textBaseline];
+    this.parts.push(
+      `<text x="${fmt(x)}" y="${fmt(y)}" ${paint(this.fillStyle, 'fill')} style="font: ${escapeXml(this.font)}" text-anchor="${anchor}"` +
+      `${baseline ? ` dominant-baseline="${baseline}"` : ''}>${escapeXml(text)}</text>`
+    );
+  }
+
+  setLineDash(segments: number[]) {
+    this.lineDash = [...segments];
+  }
+
+  // Bitmaps (the occupancy map) are embedded as PNG data URLs
+  drawImage(image: HTMLCanvasElement, x: number, y: number, w: number, h: number) {
+    const rendering = this.imageSmoothingEnabled ? '' : ' style="image-rendering: pixelated"';
+    this.parts.push(
+      `<image href="${image.toDataURL('image/png')}" x="${fmt(x)}" y="${fmt(y)}" width="${fmt(w)}" height="${fmt(h)}" preserveAspectRatio="none"${rendering}/>`
+    );
+  }
+
+  beginGroup(id: string) {
+    this.parts.push(`<g id="${escapeXml(id)}">`);
+  }
+
+  endGroup() {
+    this.parts.push('</g>');
+  }
+
+  toString(): string {
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}">`,
+      ...this.parts,
+      '</svg>',
+      '',
+    ].join('\n');
+  }
+}
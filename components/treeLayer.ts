@@ -0,0 +1,91 @@
+import { Node } from '../types';
+import { HEADING_COLOR, NODE_COLOR, NODE_DOT_LIMIT, edgeColor, traceNodeDot, traceNodeHeading, traceTreeEdge } from './drawScene';
+
+// Nodes per cached chunk: a rewire or prune rebuilds only the chunk holding the node
+const CHUNK_SIZE = 1024;
+
+interface Chunk {
+  edges: Map<string, Path2D>; // By colour
+  dots: Path2D;
+  headings: Path2D;
+}
+
+const emptyChunk = (): Chunk => ({ edges: new Map(), dots: new Path2D(), headings: new Path2D() });
+
+// Parent link as drawn: -1 for a root, -2 for a pruned node. Edge geometry only changes
+// together with the parent (rewiring, replanning), so this is all that needs watching.
+const linkOf = (node: Node): number => (node.pruned ? -2 : node.parentId ?? -1);
+
+// The live canvas's tree as batched Path2D chunks in world coordinates. New nodes are
+// traced onto the last chunk; a node whose parent changed marks its chunk for a rebuild.
+// Panning and zooming only re-stroke the cached paths.
+export class TreeLayer {
+  private source: Node[] | null = null;
+  private links: number[] = [];
+  private chunks: Chunk[] = [];
+
+  // Catches up with `nodes`, which the app extends and patches in place
+  sync(nodes: Node[]) {
+    // Another array (reset, snapshot, timeline frame) starts over
+    if (nodes !== this.source || nodes.length < this.links.length) {
+      this.source = nodes;
+      this.links = [];
+      this.chunks = [];
+    }
+
+    const dirty = new Set<number>();
+    for (let id = 0; id < this.links.length; id++) {
+      const link = linkOf(nodes[id]);
+      if (link !== this.links[id]) {
+        this.links[id] = link;
+        dirty.add(Math.floor(id / CHUNK_SIZE));
+      }
+    }
+    dirty.forEach(c => {
+      const chunk = emptyChunk();
+      const end = Math.min((c + 1) * CHUNK_SIZE, this.links.length);
+      for (let id = c * CHUNK_SIZE; id < end; id++) this.trace(chunk, nodes, nodes[id]);
+      this.chunks[c] = chunk;
+    });
+
+    for (let id = this.links.length; id < nodes.length; id++) {
+      const c = Math.floor(id / CHUNK_SIZE);
+      if (!this.chunks[c]) this.chunks[c] = emptyChunk();
+      this.trace(this.chunks[c], nodes, nodes[id]);
+      this.links[id] = linkOf(nodes[id]);
+    }
+  }
+
+  private trace(chunk: Chunk, nodes: Node[], node: Node) {
+    if (node.pruned) return;
+    if (node.parentId !== null) {
+      const color = edgeColor(node);
+      let edges = chunk.edges.get(color);
+      if (!edges) {
+        edges = new Path2D();
+        chunk.edges.set(color, edges);
+      }
+      traceTreeEdge(edges, nodes, node);
+    }
+    traceNodeDot(chunk.dots, node);
+    traceNodeHeading(chunk.headings, node);
+  }
+
+  // Strokes the cached tree; the caller sets the view transform
+  draw(ctx: CanvasRenderingContext2D) {
+    ctx.lineWidth = 1;
+    for (const chunk of this.chunks) {
+      chunk.edges.forEach((edges, color) => {
+        ctx.strokeStyle = color;
+        ctx.stroke(edges);
+      });
+    }
+    if (this.links.length >= NODE_DOT_LIMIT) return;
+    ctx.fillStyle = NODE_COLOR;
+    ctx.strokeStyle = HEADING_COLOR;
+    for (const chunk of this.chunks) {
+      ctx.fill(chunk.dots);
+      ctx.stroke(chunk.headings);
+    }
+  }
+}
@@ -0,0 +1,232 @@
+// Headless RRT vs RRT* benchmark. Drives RRTTree directly (no React, no DOM)
+// over the built-in presets and writes per-configuration summaries as CSV and JSON.
+//
+//   npm run benchmark -- --trials 50 --iterations 3000 --out benchmark-results
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { AlgorithmType, PresetType, SolverParams } from '../types';
+import { RRTTree } from '../services/rrt';
+import { PRESET_TYPES, createPreset, defaultEndpoints } from '../services/presets';
+import { createRng } from '../utils/random';
+import { DEFAULT_TURNING_RADIUS } from '../utils/curves';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+interface BenchmarkConfig {
+  label: string;
+  algorithm: AlgorithmType;
+  params: Omit<SolverParams, 'maxIterations'>;
+}
+
+interface TrialResult {
+  config: string;
+  preset: PresetType;
+  trial: number;
+  seed: number;
+  solved: boolean;
+  firstSolutionMs: number | null;
+  firstSolutionIterations: number | null;
+  firstSolutionCost: number | null;
+  finalCost: number | null;
+  nodeCount: number;
+  iterations: number;
+  totalMs: number;
+  queryMs: number;
+  distanceChecks: number;
+}
+
+interface SummaryRow {
+  config: string;
+  algorithm: AlgorithmType;
+  preset: PresetType;
+  trials: number;
+  successRate: number;
+  meanFirstSolutionMs: number | null;
+  meanFirstSolutionIterations: number | null;
+  meanFirstSolutionCost: number | null;
+  meanFinalCost: number | null;
+  meanNodeCount: number;
+  meanTotalMs: number;
+  meanQueryMs: number;
+}
+
+const BASE_PARAMS: BenchmarkConfig['params'] = {
+  stepSize: 30,
+  goalBias: 0.05,
+  searchRadius: 60,
+  spatialIndex: 'grid',
+  collisionMode: 'exact',
+  informed: false,
+  radiusMode: 'fixed',
+  gamma: 1000,
+  kScale: Math.E,
+  motionModel: 'holonomic',
+  turningRadius: DEFAULT_TURNING_RADIUS,
+  startHeading: 0,
+};
+
+const CONFIGS: BenchmarkConfig[] = [
+  { label: 'RRT', algorithm: 'RRT', params: BASE_PARAMS },
+  { label: 'RRT* r=60', algorithm: 'RRT*', params: BASE_PARAMS },
+  { label: 'RRT* r=100', algorithm: 'RRT*', params: { ...BASE_PARAMS, searchRadius: 100 } },
+  { label: 'RRT* shrinking γ=1000', algorithm: 'RRT*', params: { ...BASE_PARAMS, radiusMode: 'shrinking' } },
+  { label: 'RRT* k-nearest', algorithm: 'RRT*', params: { ...BASE_PARAMS, radiusMode: 'kNearest' } },
+  { label: 'Informed RRT* r=60', algorithm: 'RRT*', params: { ...BASE_PARAMS, informed: true } },
+  { label: 'RRT-Connect', algorithm: 'RRT-Connect', params: BASE_PARAMS },
+  { label: 'RRT* r=60 linear', algorithm: 'RRT*', params: { ...BASE_PARAMS, spatialIndex: 'linear' } },
+];
+
+const runTrial = (
+  config: BenchmarkConfig,
+  preset: PresetType,
+  trial: number,
+  seed: number,
+  maxIterations: number
+): TrialResult => {
+  // The maze layout is drawn from its own stream so every config sees the same map
+  const obstacles = createPreset(preset, WIDTH, HEIGHT, createRng(seed ^ 0x9E3779B9));
+  const { start, goals } = defaultEndpoints(WIDTH, HEIGHT);
+  const params: SolverParams = { ...config.params, maxIterations };
+  const tree = new RRTTree(WIDTH, HEIGHT, start, goals, obstacles, params, config.algorithm, seed);
+
+  // Guards against maps where the start is walled in and no sample ever succeeds
+  const maxAttempts = maxIterations * 20;
+  let iterations = 0;
+  let solverMs = 0;
+  let firstSolutionMs: number | null = null;
+  let firstSolutionIterations: number | null = null;
+  let firstSolutionCost: number | null = null;
+
+  while (tree.nodes.length < maxIterations && iterations < maxAttempts) {
+    const nodesBefore = tree.nodes.length;
+    const t0 = performance.now();
+    tree.step();
+    solverMs += performance.now() - t0;
+    iterations++;
+
+    // Path checks are bookkeeping, keep them out of the solver timing
+    if (firstSolutionIterations === null && tree.nodes.length > nodesBefore) {
+      const path = tree.getPath();
+      if (path.length > 0) {
+        firstSolutionMs = solverMs;
+        firstSolutionIterations = iterations;
+        firstSolutionCost = tree.getPathCost(path);
+        // Only RRT* keeps optimizing; the others stop at their first solution, as in the app
+        if (config.algorithm !== 'RRT*') break;
+      }
+    }
+  }
+
+  return {
+    config: config.label,
+    preset,
+    trial,
+    seed,
+    solved: firstSolutionIterations !== null,
+    firstSolutionMs,
+    firstSolutionIterations,
+    firstSolutionCost,
+    finalCost: tree.getPathCost(tree.getPath()),
+    nodeCount: tree.nodes.length,
+    iterations,
+    totalMs: solverMs,
+    queryMs: tree.queryStats.queryMs,
+    distanceChecks: tree.queryStats.distanceChecks,
+  };
+};
+
+const mean = (values: (number | null)[]): number | null => {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return null;
+  return present.reduce((a, b) => a + b, 0) / present.length;
+};
+
+const summarize = (config: BenchmarkConfig, preset: PresetType, trials: TrialResult[]): SummaryRow => {
+  return {
+    config: config.label,
+    algorithm: config.algorithm,
+    preset,
+    trials: trials.length,
+    successRate: trials.filter(t => t.solved).length / trials.length,
+    meanFirstSolutionMs: mean(trials.map(t => t.firstSolutionMs)),
+    meanFirstSolutionIterations: mean(trials.map(t => t.firstSolutionIterations)),
+    meanFirstSolutionCost: mean(trials.map(t => t.firstSolutionCost)),
+    meanFinalCost: mean(trials.map(t => t.finalCost)),
+    meanNodeCount: mean(trials.map(t => t.nodeCount)) ?? 0,
+    meanTotalMs: mean(trials.map(t => t.totalMs)) ?? 0,
+    meanQueryMs: mean(trials.map(t => t.queryMs)) ?? 0,
+  };
+};
+
+const toCsv = <T extends object>(rows: T[]): string => {
+  if (rows.length === 0) return '';
+  const headers = Object.keys(rows[0]) as (keyof T)[];
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(3);
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = rows.map(row => headers.map(h => cell(row[h])).join(','));
+  return [headers.join(','), ...lines].join('\n') + '\n';
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      trials: { type: 'string', default: '20' },
+      iterations: { type: 'string', default: '2000' },
+      seed: { type: 'string', default: '1' },
+      presets: { type: 'string', default: PRESET_TYPES.join(',') },
+      out: { type: 'string', default: 'benchmark-results' },
+    },
+  });
+
+  const trials = Number(values.trials);
+  const maxIterations = Number(values.iterations);
+  const baseSeed = Number(values.seed);
+  if (!Number.isInteger(trials) || trials < 1) throw new Error(`--trials must be a positive integer, got "${values.trials}"`);
+  if (!Number.isInteger(maxIterations) || maxIterations < 2) throw new Error(`--iterations must be an integer >= 2, got "${values.iterations}"`);
+  if (!Number.isInteger(baseSeed)) throw new Error(`--seed must be an integer, got "${values.seed}"`);
+
+  const presets = values.presets!.split(',').map(p => p.trim()) as PresetType[];
+  for (const preset of presets) {
+    if (!PRESET_TYPES.includes(preset)) throw new Error(`Unknown preset "${preset}" (expected ${PRESET_TYPES.join(', ')})`);
+  }
+
+  const allTrials: TrialResult[] = [];
+  const summary: SummaryRow[] = [];
+
+  for (const preset of presets) {
+    for (const config of CONFIGS) {
+      const results: TrialResult[] = [];
+      for (let t = 0; t < trials; t++) {
+        results.push(runTrial(config, preset, t, (baseSeed + t) >>> 0, maxIterations));
+      }
+      allTrials.push(...results);
+      const row = summarize(config, preset, results);
+      summary.push(row);
+      console.log(
+        `${preset.padEnd(8)} ${config.label.padEnd(22)} ` +
+        `success ${(row.successRate * 100).toFixed(0).padStart(3)}%  ` +
+        `first ${row.meanFirstSolutionMs?.toFixed(1) ?? '--'} ms / ${row.meanFirstSolutionIterations?.toFixed(0) ?? '--'} it  ` +
+        `final cost ${row.meanFinalCost?.toFixed(1) ?? '--'}  ` +
+        `nodes ${row.meanNodeCount.toFixed(0)}  ` +
+        `queries ${row.meanQueryMs.toFixed(1)} ms`
+      );
+    }
+  }
+
+  mkdirSync(values.out!, { recursive: true });
+  writeFileSync(join(values.out!, 'summary.csv'), toCsv(summary));
+  writeFileSync(join(values.out!, 'trials.csv'), toCsv(allTrials));
+  writeFileSync(
+    join(values.out!, 'results.json'),
+    JSON.stringify({ width: WIDTH, height: HEIGHT, trialsPerConfig: trials, maxIterations, baseSeed, summary, trials: allTrials }, null, 2)
+  );
+  console.log(`\nWrote results to ${values.out}/`);
+};
+
+main();
@@ -2,7 +2,7 @@ import { GoogleGenAI } from "@google/genai";
 
 const getSystemInstruction = () => `
 You are an expert robotics professor. 
-Explain the concepts of RRT (Rapidly-exploring Random Trees) and RRT* simply and clearly.
+Explain the concepts of RRT (Rapidly-exploring Random Trees), RRT* and RRT-Connect simply and clearly.
 Focus on the trade-off between speed (RRT) and optimality (RRT*).
 Keep explanations concise (under 150 words) and suitable for a web demo sidebar.
 Use Markdown for formatting.
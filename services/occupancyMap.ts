@@ -0,0 +1,138 @@
+import { OccupancyGrid, OccupancyOptions } from '../types';
+
+// Decoded image before thresholding: one luminance byte per pixel, 0 = black
+export interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+// Largest bitmap side accepted; bigger maps should be downsampled first
+export const MAX_MAP_SIDE = 4096;
+
+const checkSize = (width: number, height: number) => {
+  if (width < 1 || height < 1) throw new Error(`Image has no pixels (${width}×${height})`);
+  if (width > MAX_MAP_SIDE || height > MAX_MAP_SIDE) {
+    throw new Error(`Image is ${width}×${height}; maps larger than ${MAX_MAP_SIDE}×${MAX_MAP_SIDE} are not supported`);
+  }
+};
+
+// Netpbm graymap, plain (P2) or binary (P5), as written by ROS map_saver
+export const parsePgm = (bytes: Uint8Array): GrayImage => {
+  let pos = 0;
+  // Header tokens are separated by whitespace; '#' starts a comment running to end of line
+  const nextToken = (): string => {
+    for (;;) {
+      while (pos < bytes.length && /\s/.test(String.fromCharCode(bytes[pos]))) pos++;
+      if (bytes[pos] !== 0x23) break;
+      while (pos < bytes.length && bytes[pos] !== 0x0A && bytes[pos] !== 0x0D) pos++;
+    }
+    const begin = pos;
+    while (pos < bytes.length && !/\s/.test(String.fromCharCode(bytes[pos]))) pos++;
+    if (begin === pos) throw new Error('PGM file ends in the middle of its header');
+    return String.fromCharCode(...bytes.subarray(begin, pos));
+  };
+  const nextInt = (what: string): number => {
+    const token = nextToken();
+    const n = Number(token);
+    if (!Number.isInteger(n) || n < 0) throw new Error(`PGM ${what} must be a non-negative integer, got "${token}"`);
+    return n;
+  };
+
+  const magic = nextToken();
+  if (magic !== 'P2' && magic !== 'P5') throw new Error(`Not a PGM graymap (magic "${magic}", expected P2 or P5)`);
+  const width = nextInt('width');
+  const height = nextInt('height');
+  const maxVal = nextInt('maxval');
+  if (maxVal < 1 || maxVal > 65535) throw new Error(`PGM maxval must be between 1 and 65535, got ${maxVal}`);
+  checkSize(width, height);
+
+  const count = width * height;
+  const pixels = new Uint8Array(count);
+  const scale = 255 / maxVal;
+  if (magic === 'P2') {
+    for (let i = 0; i < count; i++) pixels[i] = Math.round(Math.min(maxVal, nextInt('pixel')) * scale);
+  } else {
+    pos++; // single whitespace byte after maxval
+    const bytesPerPixel = maxVal < 256 ? 1 : 2;
+    if (bytes.length - pos < count * bytesPerPixel) throw new Error('PGM pixel data is truncated');
+    for (let i = 0; i < count; i++) {
+      const v = bytesPerPixel === 1 ? bytes[pos + i] : (bytes[pos + 2 * i] << 8) | bytes[pos + 2 * i + 1];
+      pixels[i] = Math.round(Math.min(maxVal, v) * scale);
+    }
+  }
+  return { width, height, pixels };
+};
+
+// PNG, JPEG, ... through the browser's decoder; transparent pixels read as white (free)
+const decodeRaster = async (file: Blob): Promise<GrayImage> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error('The browser could not decode this image');
+  }
+  const { width, height } = bitmap;
+  checkSize(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const pixels = new Uint8Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = Math.round(0.299 * rgba[4 * i] + 0.587 * rgba[4 * i + 1] + 0.114 * rgba[4 * i + 2]);
+  }
+  return { width, height, pixels };
+};
+
+export const decodeMapImage = async (file: File): Promise<GrayImage> => {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isPgm = head[0] === 0x50 && (head[1] === 0x32 || head[1] === 0x35); // "P2" / "P5"
+  if (isPgm) return parsePgm(new Uint8Array(await file.arrayBuffer()));
+  return decodeRaster(file);
+};
+
+export const buildOccupancyGrid = (image: GrayImage, options: OccupancyOptions): OccupancyGrid => {
+  const cells = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < cells.length; i++) {
+    const darkness = options.invert ? image.pixels[i] / 255 : (255 - image.pixels[i]) / 255;
+    cells[i] = darkness > options.threshold ? 1 : 0;
+  }
+  return { cols: image.width, rows: image.height, resolution: options.resolution, cells };
+};
+
+// Run-length encoding for scene files: alternating free / occupied run lengths, starting with free
+export const encodeCellRuns = (cells: Uint8Array): number[] => {
+  const runs: number[] = [];
+  let current = 0;
+  let length = 0;
+  for (let i = 0; i < cells.length; i++) {
+    if (cells[i] === current) {
+      length++;
+    } else {
+      runs.push(length);
+      current = cells[i];
+      length = 1;
+    }
+  }
+  runs.push(length);
+  return runs;
+};
+
+export const decodeCellRuns = (runs: number[], count: number): Uint8Array => {
+  const cells = new Uint8Array(count);
+  let pos = 0;
+  runs.forEach((length, i) => {
+    if (pos + length > count) throw new Error(`runs cover more than ${count} cells`);
+    cells.fill(i % 2, pos, pos + length);
+    pos += length;
+  });
+  if (pos !== count) throw new Error(`runs cover ${pos} cells, expected ${count}`);
+  return cells;
+};
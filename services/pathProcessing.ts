@@ -0,0 +1,113 @@
+import { CollisionMode, CostRegion, Obstacle, OccupancyGrid, PathProcessingOptions, Point } from '../types';
+import { checkCollision, dist } from '../utils/geo';
+import { polylineCost, segmentCost } from '../utils/costRegions';
+import { RandomFn } from '../utils/random';
+
+// Whether the straight edge a-b may not replace `replaced`, the stretch of path from a to b
+// it would cut out: it hits an obstacle, or crosses terrain that makes it costlier
+type Rejected = (a: Point, b: Point, replaced: Point[]) => boolean;
+
+const lerp = (a: Point, b: Point, t: number): Point => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+export const polylineLength = (points: Point[]): number => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += dist(points[i - 1], points[i]);
+  return length;
+};
+
+// From each vertex jump straight to the farthest later vertex it can see
+export const shortcutGreedy = (points: Point[], rejected: Rejected): Point[] => {
+  if (points.length < 3) return points;
+  const result: Point[] = [points[0]];
+  let i = 0;
+  while (i < points.length - 1) {
+    let j = points.length - 1;
+    while (j > i + 1 && rejected(points[i], points[j], points.slice(i, j + 1))) j--;
+    result.push(points[j]);
+    i = j;
+  }
+  return result;
+};
+
+// Point at arc length s along the polyline, with the index of the segment it lies on
+const pointAt = (points: Point[], s: number): { point: Point; segment: number } => {
+  for (let i = 1; i < points.length; i++) {
+    const len = dist(points[i - 1], points[i]);
+    if (s <= len || i === points.length - 1) {
+      return { point: lerp(points[i - 1], points[i], len === 0 ? 0 : Math.min(1, s / len)), segment: i - 1 };
+    }
+    s -= len;
+  }
+  return { point: points[points.length - 1], segment: points.length - 2 };
+};
+
+// Pick two random points along the path; if they see each other, cut out everything between
+export const shortcutRandom = (points: Point[], rejected: Rejected, iterations: number, random: RandomFn): Point[] => {
+  let path = points;
+  for (let it = 0; it < iterations && path.length >= 3; it++) {
+    const total = polylineLength(path);
+    let s1 = random() * total;
+    let s2 = random() * total;
+    if (s1 > s2) [s1, s2] = [s2, s1];
+    const a = pointAt(path, s1);
+    const b = pointAt(path, s2);
+    // Same segment: nothing to gain
+    if (a.segment === b.segment) continue;
+    if (rejected(a.point, b.point, [a.point, ...path.slice(a.segment + 1, b.segment + 1), b.point])) continue;
+    path = [...path.slice(0, a.segment + 1), a.point, b.point, ...path.slice(b.segment + 1)];
+  }
+  return path;
+};
+
+// Chaikin corner cutting: every interior corner V between A and B is replaced by the
+// points a quarter of the way towards A and towards B. The pieces along the old edges
+// are already known to be free, so only the new cut edge needs a collision check;
+// corners whose cut would hit an obstacle (or cost more) are kept as they are.
+export const smoothChaikin = (points: Point[], rejected: Rejected, iterations: number): Point[] => {
+  let path = points;
+  for (let it = 0; it < iterations && path.length >= 3; it++) {
+    const next: Point[] = [path[0]];
+    for (let i = 1; i < path.length - 1; i++) {
+      const q = lerp(path[i], path[i - 1], 0.25);
+      const r = lerp(path[i], path[i + 1], 0.25);
+      if (rejected(q, r, [q, path[i], r])) {
+        next.push(path[i]);
+      } else {
+        next.push(q, r);
+      }
+    }
+    next.push(path[path.length - 1]);
+    path = next;
+  }
+  return path;
+};
+
+// Runs the selected shortcutting and smoothing stages on a raw tree path. With terrain
+// costs, every accepted change is no costlier than what it replaces, so neither is the result.
+export const processPath = (
+  points: Point[],
+  obstacles: Obstacle[],
+  occupancy: OccupancyGrid | null,
+  collisionMode: CollisionMode,
+  costRegions: CostRegion[],
+  options: PathProcessingOptions,
+  random: RandomFn
+): Point[] => {
+  // Without terrain a straight edge is never longer than the stretch it replaces
+  const rejected: Rejected = (a, b, replaced) =>
+    (costRegions.length > 0 && segmentCost(a, b, costRegions) > polylineCost(replaced, costRegions)) ||
+    checkCollision(a, b, obstacles, collisionMode, undefined, occupancy);
+  let path = points;
+  if (options.shortcut === 'greedy') {
+    path = shortcutGreedy(path, rejected);
+  } else if (options.shortcut === 'random') {
+    path = shortcutRandom(path, rejected, options.randomIterations, random);
+  }
+  if (options.smoothing === 'chaikin') {
+    path = smoothChaikin(path, rejected, options.smoothingIterations);
+  }
+  return path;
+};
@@ -0,0 +1,51 @@
+import { Goal, Obstacle, Point, PresetType } from '../types';
+import { RandomFn } from '../utils/random';
+import { circleGoal } from '../utils/goals';
+
+export const PRESET_TYPES: PresetType[] = ['default', 'narrow', 'maze'];
+
+// Start and goal used by the app on first load and by the benchmark runner
+export const defaultEndpoints = (width: number, height: number): { start: Point; goals: Goal[] } => {
+  return {
+    start: { x: 50, y: height / 2 },
+    goals: [circleGoal({ x: width - 50, y: height / 2 })],
+  };
+};
+
+// Builds the obstacle set for a built-in map. The random maze draws from `random`
+// so a seeded generator reproduces the same layout.
+export const createPreset = (
+  type: PresetType,
+  width: number,
+  height: number,
+  random: RandomFn = Math.random
+): Obstacle[] => {
+  let newObs: Obstacle[] = [];
+  if (type === 'default') {
+      newObs = [
+          { kind: 'rect', x: 300, y: 150, w: 50, h: 300 },
+          { kind: 'rect', x: 500, y: 150, w: 50, h: 300 },
+          { kind: 'rect', x: 350, y: 280, w: 150, h: 50 }
+      ];
+  } else if (type === 'narrow') {
+      const gap = 40;
+      const midY = height / 2;
+      newObs = [
+           { kind: 'rect', x: 200, y: 0, w: 50, h: midY - gap },
+           { kind: 'rect', x: 200, y: midY + gap, w: 50, h: midY - gap },
+           { kind: 'rect', x: 500, y: 0, w: 50, h: midY - gap - 50 },
+           { kind: 'rect', x: 500, y: midY + gap - 50, w: 50, h: midY - gap + 50 },
+      ];
+  } else if (type === 'maze') {
+      for(let i=0; i<25; i++) {
+          newObs.push({
+              kind: 'rect',
+              x: random() * (width - 150) + 75,
+              y: random() * (height - 100) + 50,
+              w: random() * 80 + 20,
+              h: random() * 80 + 20
+          });
+      }
+  }
+  return newObs;
+};
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RRTTree } from './rrt';
+import { solutionMarkers } from './timeline';
+import { checkCollision, dist } from '../utils/geo';
+import { circleGoal } from '../utils/goals';
+import { AlgorithmType, Obstacle, SolverParams, SpatialIndexType } from '../types';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const WALL: Obstacle = { kind: 'rect', x: 300, y: 100, w: 50, h: 400 };
+// Dropped onto the grown tree, next to the start
+const BLOCK: Obstacle = { kind: 'rect', x: 100, y: 250, w: 100, h: 100 };
+
+const params = (overrides: Partial<SolverParams> = {}): SolverParams => ({
+  stepSize: 20, maxIterations: 3000, goalBias: 0.05, searchRadius: 60, spatialIndex: 'grid', collisionMode: 'exact',
+  informed: false, radiusMode: 'fixed', gamma: 0, kScale: Math.E, motionModel: 'holonomic', turningRadius: 40, startHeading: 0,
+  ...overrides,
+});
+
+const grow = (algorithm: AlgorithmType, iterations: number, overrides: Partial<SolverParams> = {}): RRTTree => {
+  const tree = new RRTTree(WIDTH, HEIGHT, { x: 50, y: 300 }, [circleGoal({ x: 750, y: 300 })], [WALL], params(overrides), algorithm, 11);
+  for (let i = 0; i < iterations; i++) tree.step();
+  return tree;
+};
+
+// Parent and child links agree, costs add up, and no live edge crosses an obstacle
+const assertConsistent = (tree: RRTTree, obstacles: Obstacle[]) => {
+  for (const node of tree.nodes) {
+    if (node.pruned) {
+      assert.equal(node.parentId, null);
+      assert.deepEqual(node.children, []);
+      continue;
+    }
+    for (const childId of node.children) assert.equal(tree.nodes[childId].parentId, node.id);
+    if (node.parentId === null) continue;
+    const parent = tree.nodes[node.parentId];
+    assert.ok(!parent.pruned, `node ${node.id} hangs off pruned node ${parent.id}`);
+    assert.ok(parent.children.includes(node.id));
+    assert.ok(Math.abs(node.cost - (parent.cost + dist(parent, node))) < 1e-6, `cost of node ${node.id}`);
+    assert.ok(!checkCollision(parent, node, obstacles, 'exact'), `edge into node ${node.id} collides`);
+  }
+};
+
+for (const algorithm of ['RRT', 'RRT*', 'RRT-Connect'] as AlgorithmType[]) {
+  test(`${algorithm}: replanning cuts only the edges the new obstacle blocks`, () => {
+    const tree = grow(algorithm, 800);
+    const before = tree.nodes.map(n => n.parentId);
+    const blocked = new Set(
+      tree.nodes.filter(n => n.parentId !== null && checkCollision(tree.nodes[n.parentId], n, [BLOCK], 'exact')).map(n => n.id)
+    );
+    assert.ok(blocked.size > 0, 'the block should land on the tree');
+    // Below a blocked edge, nodes may be reattached elsewhere or pruned
+    const orphaned = new Set<number>();
+    const stack = [...blocked];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (orphaned.has(id)) continue;
+      orphaned.add(id);
+      stack.push(...tree.nodes[id].children);
+    }
+
+    tree.replan([WALL, BLOCK]);
+    assertConsistent(tree, [WALL, BLOCK]);
+    assert.equal(tree.counters.edgesCut, blocked.size);
+    for (const node of tree.nodes) {
+      if (orphaned.has(node.id)) continue;
+      assert.ok(!node.pruned, `node ${node.id} was pruned`);
+      assert.equal(node.parentId, before[node.id], `node ${node.id} was moved`);
+    }
+    assert.equal(tree.liveCount + tree.counters.pruned, tree.nodes.length);
+
+    // Growth carries on around the new obstacle
+    for (let i = 0; i < 300; i++) tree.step();
+    assertConsistent(tree, [WALL, BLOCK]);
+  });
+}
+
+test('replanning with the same obstacles changes nothing', () => {
+  const tree = grow('RRT*', 500);
+  const before = JSON.stringify(tree.nodes);
+  tree.replan([WALL]);
+  assert.equal(JSON.stringify(tree.nodes), before);
+  assert.equal(tree.counters.edgesCut, 0);
+});
+
+// Pruned nodes leave holes in the ids the spatial index holds
+test('RRT* grows the same tree with either spatial index after a replan', () => {
+  const run = (spatialIndex: SpatialIndexType) => {
+    const tree = grow('RRT*', 1500, { spatialIndex, radiusMode: 'kNearest' });
+    tree.replan([WALL, BLOCK]);
+    for (let i = 0; i < 1000; i++) tree.step();
+    return tree;
+  };
+  const linear = run('linear');
+  const grid = run('grid');
+  assert.ok(linear.counters.pruned > 0, 'the replan should prune part of the tree');
+  assert.deepEqual(linear.getPath(), grid.getPath());
+  assert.deepEqual(linear.nodes.map(n => n.parentId), grid.nodes.map(n => n.parentId));
+});
+
+// The cost after a replan may be higher, so the chart must not read it as an improvement
+test('the first solution after a replan is marked as such', () => {
+  const tree = grow('RRT*', 1500);
+  const solved = solutionMarkers(tree.events).length;
+  assert.ok(solved > 0, 'the tree should reach the goal');
+  tree.replan([WALL, BLOCK]);
+  for (let i = 0; i < 300; i++) tree.step();
+  const markers = solutionMarkers(tree.events);
+  assert.ok(markers.length > solved, 'a cost should be logged after the replan');
+  assert.deepEqual(markers.map(m => m.replanned), markers.map((_, i) => i === solved));
+});
@@ -1,44 +1,117 @@
 
-import { Node, Point, Obstacle, AlgorithmType, SolverParams, CodeStep } from '../types';
-import { dist, steer, checkCollision, samplePoint } from '../utils/geo';
+import { Node, Point, Pose, Goal, EdgeEnd, CurveEdge, CostRegion, MotionModel, Obstacle, AlgorithmType, TreeSide, Ellipse, SolverParams, CodeStep, SolverStatus, TreeDiff, TreeSnapshot, QueryStats, CollisionStats, SolverCounters, OccupancyGrid, TimelineEvent } from '../types';
+import { dist, steer, checkCollision, samplePoint, informedEllipse, sampleEllipse } from '../utils/geo';
+import { shortestCurve, truncateCurve, curveEnd, curvePoints } from '../utils/curves';
+import { edgeCost, minMultiplier } from '../utils/costRegions';
+import { goalReach, inGoalRegion, reachesGoal, sampleGoal } from '../utils/goals';
+import { createRng, randomSeed, RandomFn } from '../utils/random';
+import { SpatialIndex, createSpatialIndex } from '../utils/spatialIndex';
+
+// Whether a run steers a car (curved edges, headings). RRT-Connect's CONNECT has to hit the
+// other tree's node exactly, which a car cannot do in general, so it stays holonomic.
+export const steersCar = (algorithm: AlgorithmType, motionModel: MotionModel): boolean =>
+  motionModel !== 'holonomic' && algorithm !== 'RRT-Connect';
+
+// Nodes still in the tree, leaving out those pruned by replanning
+export const liveNodeCount = (nodes: Node[]): number => {
+  let count = 0;
+  for (const node of nodes) if (!node.pruned) count++;
+  return count;
+};
 
 export class RRTTree {
   nodes: Node[] = [];
   width: number;
   height: number;
   start: Point;
-  goal: Point;
+  goals: Goal[];
   obstacles: Obstacle[];
+  // Optional bitmap map; vector obstacles are tested on top of it
+  occupancy: OccupancyGrid | null;
+  // Terrain multipliers weighting edge costs; empty means cost is plain length
+  costRegions: CostRegion[];
   params: SolverParams;
-  goalNodeId: number | null = null;
   algorithm: AlgorithmType;
 
+  // Seeded PRNG: the same map, params and seed always grow the same tree
+  seed: number;
+  random: RandomFn;
+
+  // Nearest / Near query structure, kept in sync with every node insertion.
+  // RRT-Connect keeps a second one for the tree rooted at the goal.
+  index: SpatialIndex;
+  goalIndex: SpatialIndex | null = null;
+  queryStats: QueryStats = { queries: 0, distanceChecks: 0, queryMs: 0 };
+  collisionStats: CollisionStats = { segmentChecks: 0, primitiveTests: 0 };
+  // Time spent inside micro-steps, the clock of the convergence chart
+  solveMs = 0;
+  counters: SolverCounters = {
+    attempts: 0, rejections: 0, neighborsExamined: 0, parentChanges: 0, rewires: 0, costPropagations: 0,
+    edgesCut: 0, reconnected: 0, pruned: 0,
+  };
+
+  // Nodes that end a solution (see reachesGoal; positions never change)
+  goalCandidates: number[] = [];
+  // Informed RRT*: sampling ellipse for the current best solution
+  informedEllipse: Ellipse | null = null;
+
+  // RRT*: size of the most recent Near set
+  rewireRadius: number | null = null;
+  rewireK: number | null = null;
+
   // State for micro-stepping
   microState: CodeStep = 'SAMPLE';
   
   // Temporary variables for visualization/stepping
-  tempSample: Point | null = null;
+  tempSample: Point | Pose | null = null; // A Pose in the car modes
   tempNearestNode: Node | null = null;
-  tempNewPoint: Point | null = null;
+  tempNewPoint: EdgeEnd | null = null; // Carries its heading and the curve from tempNearestNode in the car modes
   tempNeighbors: number[] = [];
   tempBestParent: number | null = null;
+  tempBestEdge: CurveEdge | undefined = undefined;
+
+  // RRT-Connect: T_a is `activeTree`; CONNECT grows the other tree from
+  // tempConnectFrom towards tempConnectTarget until it reaches it or is blocked
+  activeTree: TreeSide = 'start';
+  tempConnectTarget: Node | null = null;
+  tempConnectFrom: Node | null = null;
+  // The two nodes (one per tree) joined by the final connecting edge
+  connection: { startNode: number; goalNode: number } | null = null;
+
+  // Timeline: completed iterations and the event log they produced
+  iteration = 0;
+  events: TimelineEvent[] = [];
+  private lastSolutionCost: number | null = null;
+
+  // Change tracking so a worker can ship only what changed since the last flush
+  private flushedCount = 0;
+  private flushedEvents = 0;
+  private dirtyNodes = new Set<number>();
 
   constructor(
     width: number, 
     height: number, 
     start: Point, 
-    goal: Point, 
+    goals: Goal[], 
     obstacles: Obstacle[], 
     params: SolverParams,
-    algorithm: AlgorithmType
+    algorithm: AlgorithmType,
+    seed: number = randomSeed(),
+    occupancy: OccupancyGrid | null = null,
+    costRegions: CostRegion[] = []
   ) {
     this.width = width;
     this.height = height;
     this.start = start;
-    this.goal = goal;
+    this.goals = goals;
     this.obstacles = obstacles;
+    this.occupancy = occupancy;
+    this.costRegions = costRegions;
     this.params = params;
     this.algorithm = algorithm;
+    this.seed = seed;
+    this.random = createRng(seed);
+    this.index = createSpatialIndex(params.spatialIndex, width, height, params.stepSize);
     
     // Initialize root
     this.nodes.push({
@@ -49,20 +122,254 @@ export class RRTTree {
       cost: 0,
       children: []
     });
+    if (this.carModel) this.nodes[0].heading = params.startHeading;
+    this.index.insert(0, start);
+    if (reachesGoal(this.nodes[0], goals)) this.goalCandidates.push(0);
+
+    if (algorithm === 'RRT-Connect') {
+      // The goal tree is rooted at every goal point; CONNECT may reach any of them
+      this.nodes[0].tree = 'start';
+      this.goalIndex = createSpatialIndex(params.spatialIndex, width, height, params.stepSize);
+      for (const goal of goals) {
+        const id = this.nodes.length;
+        this.nodes.push({ id, x: goal.x, y: goal.y, parentId: null, cost: 0, children: [], tree: 'goal' });
+        this.goalIndex.insert(id, goal);
+      }
+    }
+
+    for (const root of this.nodes) {
+      this.events.push({ type: 'add', iteration: -1, id: root.id, parentId: null, x: root.x, y: root.y, tree: root.tree, sample: null, heading: root.heading });
+    }
+    if (algorithm !== 'RRT-Connect') {
+      // A start inside a goal region connects before the first iteration
+      this.iteration = -1;
+      this.reachGoals(this.nodes[0]);
+      this.iteration = 0;
+    }
+  }
+
+  // Car-like motion model in use, null for a point robot
+  get carModel(): 'dubins' | 'reedsShepp' | null {
+    const { motionModel } = this.params;
+    return steersCar(this.algorithm, motionModel) ? (motionModel as 'dubins' | 'reedsShepp') : null;
+  }
+
+  private pose(p: EdgeEnd): Pose {
+    return { x: p.x, y: p.y, heading: p.heading ?? 0 };
+  }
+
+  private indexFor(side: TreeSide): SpatialIndex {
+    return side === 'goal' && this.goalIndex ? this.goalIndex : this.index;
+  }
+
+  // Wraps a spatial query so the Stats panel can compare index types
+  private timedQuery<T>(index: SpatialIndex, query: () => T): T {
+    const before = index.distanceChecks;
+    const t0 = performance.now();
+    const result = query();
+    this.queryStats.queryMs += performance.now() - t0;
+    this.queryStats.distanceChecks += index.distanceChecks - before;
+    this.queryStats.queries++;
+    return result;
+  }
+
+  // Goal a solution node ends at: the one it sits on, or for a car the first region it is in
+  private goalOf(node: Node): Goal {
+    if (this.carModel) return this.goals.find(g => inGoalRegion(node, g))!;
+    return this.goals.find(g => g.x === node.x && g.y === node.y)!;
+  }
+
+  // Cheapest node that ends a solution, if any
+  private bestCandidate(): Node | null {
+    let best: Node | null = null;
+    for (const id of this.goalCandidates) {
+      const node = this.nodes[id];
+      if (best === null || node.cost < best.cost) best = node;
+    }
+    return best;
+  }
+
+  bestSolutionCost(): number | null {
+    return this.bestCandidate()?.cost ?? null;
+  }
+
+  // Goal reached: a point robot whose new node lands in a goal region tries a direct,
+  // collision-checked edge to the goal point. The first success puts a node on the point;
+  // in RRT* a cheaper connection later re-parents it. Cars arrive anywhere in the region,
+  // so appendNode alone records them.
+  private reachGoals(node: Node) {
+    if (this.carModel) return;
+    for (const goal of this.goals) {
+      if (!inGoalRegion(node, goal) || (node.x === goal.x && node.y === goal.y)) continue;
+      let onGoal: Node | null = null;
+      for (const id of this.goalCandidates) {
+        const candidate = this.nodes[id];
+        if (candidate.x === goal.x && candidate.y === goal.y && (onGoal === null || candidate.cost < onGoal.cost)) onGoal = candidate;
+      }
+      const cost = node.cost + edgeCost(node, goal, this.costRegions);
+      if (onGoal === null) {
+        if (!this.collides(node, goal)) this.appendNode(goal, node.id);
+      } else if (this.algorithm === 'RRT*' && cost < onGoal.cost && !this.collides(node, goal)) {
+        this.reparent(onGoal, node.id);
+        onGoal.cost = cost;
+        onGoal.rewires = (onGoal.rewires ?? 0) + 1;
+        this.counters.rewires++;
+        this.updateCost(onGoal.id);
+        this.events.push({ type: 'rewire', iteration: this.iteration, id: onGoal.id, parentId: node.id });
+      }
+    }
+  }
+
+  // Informed RRT* ellipse around the goal of the best solution. A car may stop anywhere in
+  // the region, so the bound widens by the region's reach. Another goal that could still
+  // beat the best path leaves nothing to narrow to.
+  private solutionEllipse(): Ellipse | null {
+    const best = this.bestCandidate();
+    if (!best) return null;
+    // Cheap terrain lets a path be longer than its cost; the ellipse bounds length
+    const bound = best.cost / minMultiplier(this.costRegions);
+    const slack = (g: Goal) => (this.carModel ? goalReach(g) : 0);
+    const goal = this.goalOf(best);
+    for (const other of this.goals) {
+      if (other !== goal && dist(this.start, other) - slack(other) < bound) return null;
+    }
+    return informedEllipse(this.start, goal, bound + slack(goal));
+  }
+
+  // Ellipse sample clipped to the world; gives up after a few misses and samples the whole space
+  private sampleInformed(ellipse: Ellipse): Point {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const p = sampleEllipse(ellipse, this.random);
+      if (p.x >= 0 && p.x <= this.width && p.y >= 0 && p.y <= this.height) return p;
+    }
+    return samplePoint(this.width, this.height, this.random);
+  }
+
+  // RRT* Near set for the current tree size n (in 2D, d = 2)
+  private findNear(p: Point): number[] {
+    const n = Math.max(2, this.liveCount);
+    const { radiusMode, searchRadius, gamma, kScale } = this.params;
+
+    if (radiusMode === 'kNearest') {
+      const k = Math.ceil(kScale * Math.log(n));
+      const ids = this.timedQuery(this.index, () => this.index.kNearest(p, k));
+      this.rewireK = k;
+      this.rewireRadius = ids.length > 0 ? dist(this.nodes[ids[ids.length - 1]], p) : 0;
+      return ids;
+    }
+
+    const radius = radiusMode === 'shrinking'
+      ? gamma * Math.sqrt(Math.log(n) / n)
+      : searchRadius;
+    this.rewireK = null;
+    this.rewireRadius = radius;
+    return this.timedQuery(this.index, () => this.index.near(p, radius));
+  }
+
+  // Appends a node under parentId, in the parent's tree. In the car modes `edge` is the
+  // curve from the parent and `p` the pose it ends in.
+  private appendNode(p: Point, parentId: number, edge?: CurveEdge): Node {
+    const parent = this.nodes[parentId];
+    const node: Node = {
+      id: this.nodes.length,
+      x: p.x,
+      y: p.y,
+      parentId,
+      cost: parent.cost + edgeCost(parent, { x: p.x, y: p.y, edge }, this.costRegions),
+      children: []
+    };
+    if (parent.tree) node.tree = parent.tree;
+    if (edge) {
+      node.heading = (p as Pose).heading;
+      node.edge = edge;
+    }
+
+    this.nodes.push(node);
+    this.indexFor(parent.tree ?? 'start').insert(node.id, node);
+    if (!node.tree && reachesGoal(node, this.goals)) this.goalCandidates.push(node.id);
+    parent.children.push(node.id);
+    this.dirtyNodes.add(parentId);
+    this.events.push({ type: 'add', iteration: this.iteration, id: node.id, parentId, x: node.x, y: node.y, tree: node.tree, sample: this.tempSample, heading: node.heading, edge });
+    return node;
+  }
+
+  private logReject(from: Node, to: EdgeEnd) {
+    this.counters.rejections++;
+    this.events.push({ type: 'reject', iteration: this.iteration, from: from.id, to, sample: this.tempSample });
+  }
+
+  // Closes the current iteration, logging a 'solution' event if the path cost moved
+  private endIteration() {
+    const cost = this.getPathCost(this.getPath());
+    if (cost !== null && (this.lastSolutionCost === null || Math.abs(cost - this.lastSolutionCost) > 1e-9)) {
+      this.events.push({ type: 'solution', iteration: this.iteration, cost, time: this.solveMs });
+      this.lastSolutionCost = cost;
+    }
+    this.iteration++;
+  }
+
+  private collides(a: Point, b: Point): boolean {
+    return checkCollision(a, b, this.obstacles, this.params.collisionMode, this.collisionStats, this.occupancy);
+  }
+
+  // A curve is checked chord by chord (each chord counts as one edge test). Unlike a
+  // straight edge between two sampled points it can leave the world, which counts as a collision.
+  private curveCollides(from: Pose, edge: CurveEdge, obstacles = this.obstacles, occupancy = this.occupancy): boolean {
+    const points = curvePoints(from, edge);
+    for (let i = 1; i < points.length; i++) {
+      const p = points[i];
+      if (p.x < 0 || p.x > this.width || p.y < 0 || p.y > this.height) return true;
+      if (checkCollision(points[i - 1], p, obstacles, this.params.collisionMode, this.collisionStats, occupancy)) return true;
+    }
+    return false;
+  }
+
+  // Edge from `from` to `to` and its cost: straight for a point robot, the shortest curve
+  // between the two poses in the car modes. Null when no curve exists.
+  private link(from: Node, to: EdgeEnd): { edge: CurveEdge | undefined; cost: number } | null {
+    const model = this.carModel;
+    if (!model) return { edge: undefined, cost: edgeCost(from, { x: to.x, y: to.y }, this.costRegions) };
+    const edge = shortestCurve(this.pose(from), this.pose(to), this.params.turningRadius, model);
+    return edge ? { edge, cost: edgeCost(from, { x: to.x, y: to.y, edge }, this.costRegions) } : null;
+  }
+
+  private linkCollides(from: Node, to: Point, edge: CurveEdge | undefined): boolean {
+    return edge ? this.curveCollides(this.pose(from), edge) : this.collides(from, to);
   }
 
   // Executes one micro-step of the algorithm
   // Returns true if the iteration is still ongoing, false if the iteration completed (node added or discarded)
   stepMicro(): boolean {
-    if (this.nodes.length >= this.params.maxIterations) return false;
+    if (this.liveCount >= this.params.maxIterations) return false;
+    if (this.connection) return false; // RRT-Connect has joined its trees
+
+    const t0 = performance.now();
+    const ongoing = this.runMicroStep();
+    this.solveMs += performance.now() - t0;
+    if (!ongoing) this.endIteration();
+    return ongoing;
+  }
 
+  private runMicroStep(): boolean {
     switch (this.microState) {
       case 'SAMPLE':
-        // 1. Sample
-        if (Math.random() < this.params.goalBias) {
-          this.tempSample = this.goal;
+        // 1. Sample (RRT-Connect relies on CONNECT instead of goal bias)
+        this.counters.attempts++;
+        if (this.algorithm === 'RRT*' && this.params.informed) {
+          this.informedEllipse = this.solutionEllipse();
+        }
+        if (this.algorithm !== 'RRT-Connect' && this.random() < this.params.goalBias) {
+          // Goal bias aims anywhere in a goal region; the direct connection does the rest
+          const goal = this.goals.length > 1 ? this.goals[Math.floor(this.random() * this.goals.length)] : this.goals[0];
+          this.tempSample = sampleGoal(goal, this.random);
+        } else if (this.informedEllipse) {
+          this.tempSample = this.sampleInformed(this.informedEllipse);
         } else {
-          this.tempSample = samplePoint(this.width, this.height);
+          this.tempSample = samplePoint(this.width, this.height, this.random);
+        }
+        // Car modes sample a pose; a goal region is reached in any heading
+        if (this.carModel) {
+          this.tempSample = { ...this.tempSample, heading: (this.random() * 2 - 1) * Math.PI };
         }
         this.microState = 'NEAREST';
         return true;
@@ -74,16 +381,9 @@ export class RRTTree {
              return true; 
         }
         
-        let nearestNodeIndex = -1;
-        let minDist = Infinity;
-        
-        for (let i = 0; i < this.nodes.length; i++) {
-          const d = dist(this.nodes[i], this.tempSample);
-          if (d < minDist) {
-            minDist = d;
-            nearestNodeIndex = i;
-          }
-        }
+        const sample = this.tempSample;
+        const activeIndex = this.indexFor(this.activeTree);
+        const nearestNodeIndex = this.timedQuery(activeIndex, () => activeIndex.nearest(sample));
         this.tempNearestNode = this.nodes[nearestNodeIndex];
         this.microState = 'STEER';
         return true;
@@ -94,7 +394,19 @@ export class RRTTree {
             this.microState = 'SAMPLE';
             return true;
         }
-        this.tempNewPoint = steer(this.tempNearestNode, this.tempSample, this.params.stepSize);
+        if (this.carModel) {
+          // Drive at most one step along the shortest curve towards the sampled pose
+          const curve = this.link(this.tempNearestNode, this.tempSample)?.edge;
+          if (!curve) {
+            this.resetTemp();
+            this.microState = 'SAMPLE';
+            return false;
+          }
+          const edge = truncateCurve(curve, this.params.stepSize);
+          this.tempNewPoint = { ...curveEnd(this.pose(this.tempNearestNode), edge), edge };
+        } else {
+          this.tempNewPoint = steer(this.tempNearestNode, this.tempSample, this.params.stepSize);
+        }
         this.microState = 'COLLISION_CHECK';
         return true;
 
@@ -105,9 +417,15 @@ export class RRTTree {
              return true;
         }
 
-        if (checkCollision(this.tempNearestNode, this.tempNewPoint, this.obstacles)) {
+        if (this.linkCollides(this.tempNearestNode, this.tempNewPoint, this.tempNewPoint.edge)) {
           // Collision: discard and restart iteration
+          this.logReject(this.tempNearestNode, this.tempNewPoint);
           this.resetTemp();
+          if (this.algorithm === 'RRT-Connect') {
+            // T_a is trapped; still hand the turn to the other tree
+            this.microState = 'SWAP';
+            return true;
+          }
           this.microState = 'SAMPLE';
           return false; // Iteration ended (failed)
         }
@@ -123,13 +441,8 @@ export class RRTTree {
       case 'NEIGHBORS':
          // 5a. RRT* Find Neighbors
          if (!this.tempNewPoint) { this.microState = 'SAMPLE'; return true; }
-         this.tempNeighbors = [];
-         const searchRadius = this.params.searchRadius;
-         for (let i = 0; i < this.nodes.length; i++) {
-            if (dist(this.nodes[i], this.tempNewPoint) <= searchRadius) {
-                this.tempNeighbors.push(i);
-            }
-         }
+         this.tempNeighbors = this.findNear(this.tempNewPoint);
+         this.counters.neighborsExamined += this.tempNeighbors.length;
          this.microState = 'CHOOSE_PARENT';
          return true;
 
@@ -138,19 +451,25 @@ export class RRTTree {
          if (!this.tempNewPoint || !this.tempNearestNode) { this.microState = 'SAMPLE'; return true; }
          
          let bestParentIdx = this.tempNearestNode.id;
-         let minCost = this.tempNearestNode.cost + dist(this.tempNearestNode, this.tempNewPoint);
+         let bestEdge = this.tempNewPoint.edge;
+         let minCost = this.tempNearestNode.cost + edgeCost(this.tempNearestNode, this.tempNewPoint, this.costRegions);
 
          for (const neighborIdx of this.tempNeighbors) {
             const neighbor = this.nodes[neighborIdx];
-            const potentialCost = neighbor.cost + dist(neighbor, this.tempNewPoint);
+            const link = this.link(neighbor, this.tempNewPoint);
+            if (!link) continue;
+            const potentialCost = neighbor.cost + link.cost;
             if (potentialCost < minCost) {
-                if (!checkCollision(neighbor, this.tempNewPoint, this.obstacles)) {
+                if (!this.linkCollides(neighbor, this.tempNewPoint, link.edge)) {
                     minCost = potentialCost;
                     bestParentIdx = neighborIdx;
+                    bestEdge = link.edge;
                 }
             }
          }
+         if (bestParentIdx !== this.tempNearestNode.id) this.counters.parentChanges++;
          this.tempBestParent = bestParentIdx;
+         this.tempBestEdge = bestEdge;
          this.microState = 'ADD_NODE';
          return true;
 
@@ -159,32 +478,25 @@ export class RRTTree {
          if (!this.tempNewPoint) { this.microState = 'SAMPLE'; return true; }
 
          let finalParentIdx = this.tempNearestNode?.id || 0;
-         let cost = 0;
+         let finalEdge = this.tempNewPoint.edge;
 
          if (this.algorithm === 'RRT*' && this.tempBestParent !== null) {
              finalParentIdx = this.tempBestParent;
+             finalEdge = this.tempBestEdge;
          }
 
-         const parent = this.nodes[finalParentIdx];
-         cost = parent.cost + dist(parent, this.tempNewPoint);
-
-         const newNodeId = this.nodes.length;
-         const newNode: Node = {
-            id: newNodeId,
-            x: this.tempNewPoint.x,
-            y: this.tempNewPoint.y,
-            parentId: finalParentIdx,
-            cost: cost,
-            children: []
-         };
-
-         this.nodes.push(newNode);
-         this.nodes[finalParentIdx].children.push(newNodeId);
+         const addedNode = this.appendNode(this.tempNewPoint, finalParentIdx, finalEdge);
 
          if (this.algorithm === 'RRT*') {
              this.microState = 'REWIRE';
+         } else if (this.algorithm === 'RRT-Connect') {
+             // Now try to pull the other tree greedily towards the new node
+             this.tempConnectTarget = addedNode;
+             this.tempConnectFrom = null;
+             this.microState = 'CONNECT';
          } else {
              // RRT Done
+             this.reachGoals(addedNode);
              this.resetTemp();
              this.microState = 'SAMPLE';
              return false; // Iteration complete
@@ -206,23 +518,84 @@ export class RRTTree {
                   if (neighborIdx === newNode.parentId) continue;
 
                   const neighbor = this.nodes[neighborIdx];
-                  const newCostThroughNewNode = newNode.cost + dist(newNode, neighbor);
+                  const link = this.link(newNode, neighbor);
+                  if (!link) continue;
+                  const newCostThroughNewNode = newNode.cost + link.cost;
 
                   if (newCostThroughNewNode < neighbor.cost) {
-                      if (!checkCollision(newNode, neighbor, this.obstacles)) {
+                      if (!this.linkCollides(newNode, neighbor, link.edge)) {
                            // Re-parent neighbor to newNode
                            if (neighbor.parentId !== null) {
                                const oldParent = this.nodes[neighbor.parentId];
                                oldParent.children = oldParent.children.filter(id => id !== neighbor.id);
+                               this.dirtyNodes.add(oldParent.id);
                            }
                            neighbor.parentId = newNodeId;
                            neighbor.cost = newCostThroughNewNode;
+                           if (link.edge) neighbor.edge = link.edge;
+                           neighbor.rewires = (neighbor.rewires ?? 0) + 1;
                            newNode.children.push(neighbor.id);
+                           this.dirtyNodes.add(neighbor.id);
+                           this.dirtyNodes.add(newNodeId);
+                           this.counters.rewires++;
                            this.updateCost(neighbor.id);
+                           this.events.push({ type: 'rewire', iteration: this.iteration, id: neighbor.id, parentId: newNodeId, edge: link.edge });
                       }
                   }
               }
+              this.reachGoals(newNode);
+          }
+          this.resetTemp();
+          this.microState = 'SAMPLE';
+          return false; // Iteration complete
+
+      case 'CONNECT': {
+          // 6. RRT-Connect: one greedy extension of T_b towards T_a's new node per micro-step
+          const target = this.tempConnectTarget;
+          if (!target) { this.microState = 'SWAP'; return true; }
+
+          let from = this.tempConnectFrom;
+          if (!from) {
+              const otherIndex = this.indexFor(this.activeTree === 'start' ? 'goal' : 'start');
+              from = this.nodes[this.timedQuery(otherIndex, () => otherIndex.nearest(target))];
+          }
+          const next = steer(from, target, this.params.stepSize);
+          this.tempSample = target;
+          this.tempNearestNode = from;
+          this.tempNewPoint = next;
+
+          if (this.collides(from, next)) {
+              // Trapped: T_b cannot advance, give up on this connection attempt
+              this.logReject(from, next);
+              this.microState = 'SWAP';
+              return true;
+          }
+
+          // steer() hands back the target itself once it is within one step
+          if (next === target) {
+              // Reached: the trees touch, record the bridging edge
+              const startSide = target.tree === 'start' ? target : from;
+              const goalSide = target.tree === 'start' ? from : target;
+              this.connection = { startNode: startSide.id, goalNode: goalSide.id };
+              this.events.push({ type: 'connect', iteration: this.iteration, ...this.connection });
+              this.resetTemp();
+              this.microState = 'SAMPLE';
+              return false; // Solution found
+          }
+
+          // Advanced: keep extending from the node just added
+          this.tempConnectFrom = this.appendNode(next, from.id);
+          if (this.liveCount >= this.params.maxIterations) {
+              this.resetTemp();
+              this.microState = 'SAMPLE';
+              return false;
           }
+          return true;
+      }
+
+      case 'SWAP':
+          // 7. RRT-Connect: the trees trade roles every iteration
+          this.activeTree = this.activeTree === 'start' ? 'goal' : 'start';
           this.resetTemp();
           this.microState = 'SAMPLE';
           return false; // Iteration complete
@@ -238,8 +611,9 @@ export class RRTTree {
     // Run until iteration finishes
     // We loop until stepMicro returns false.
     // However, to prevent infinite loops if something breaks, we put a safety cap
+    // (RRT-Connect's CONNECT phase may take one micro-step per extension)
     let ops = 0;
-    while(this.stepMicro() && ops < 20) {
+    while(this.stepMicro() && ops < 1000) {
         ops++;
     }
     return true;
@@ -251,38 +625,220 @@ export class RRTTree {
     this.tempNewPoint = null;
     this.tempNeighbors = [];
     this.tempBestParent = null;
+    this.tempBestEdge = undefined;
+    this.tempConnectTarget = null;
+    this.tempConnectFrom = null;
   }
 
   updateCost(nodeId: number) {
     const node = this.nodes[nodeId];
     for (const childId of node.children) {
       const child = this.nodes[childId];
-      child.cost = node.cost + dist(node, child);
+      child.cost = node.cost + edgeCost(node, child, this.costRegions);
+      this.dirtyNodes.add(childId);
+      this.counters.costPropagations++;
       this.updateCost(childId);
     }
   }
 
-  getPath(): number[] {
-    let closestNode = -1;
-    
-    let candidates: number[] = [];
-    for(let i=0; i<this.nodes.length; i++) {
-        if (dist(this.nodes[i], this.goal) <= this.params.stepSize * 1.5) {
-            candidates.push(i);
-        }
+  // Nodes in the tree; pruned ones stay in `nodes` but no longer count
+  get liveCount(): number {
+    return this.nodes.length - this.counters.pruned;
+  }
+
+  // Replanning: takes a new obstacle list and repairs the tree instead of starting over,
+  // in the spirit of RRTX / dynamic RRT*. Edges crossed by an added or moved obstacle are
+  // cut, orphaned nodes are reattached to the surviving tree where a collision-free parent
+  // is in reach, and the rest is pruned. Removed obstacles invalidate nothing.
+  replan(obstacles: Obstacle[]) {
+    const previous = new Set(this.obstacles.map(o => JSON.stringify(o)));
+    const changed = obstacles.filter(o => !previous.has(JSON.stringify(o)));
+    this.obstacles = obstacles;
+    if (changed.length === 0) return;
+    this.events.push({ type: 'replan', iteration: this.iteration });
+    const blocked = (a: Point, b: Point) => checkCollision(a, b, changed, this.params.collisionMode, this.collisionStats);
+
+    // 1. Cut blocked edges; everything below a cut is orphaned
+    const cut = new Set<number>();
+    for (const node of this.nodes) {
+      if (node.pruned || node.parentId === null) continue;
+      const parent = this.nodes[node.parentId];
+      if (node.edge ? this.curveCollides(this.pose(parent), node.edge, changed, null) : blocked(parent, node)) cut.add(node.id);
+    }
+    this.counters.edgesCut += cut.size;
+    const orphaned = new Set<number>();
+    const stack = [...cut];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (orphaned.has(id)) continue;
+      orphaned.add(id);
+      stack.push(...this.nodes[id].children);
+    }
+
+    // 2. Reattach orphans cheapest-first, so a parent is settled before its children:
+    // an orphan keeps its own (uncut) edge once its parent is back, otherwise it takes the
+    // cheapest collision-free parent within reach
+    const reattached = new Set<number>();
+    const attached = (id: number) => !orphaned.has(id) || reattached.has(id);
+    const reach = this.algorithm === 'RRT*' ? Math.max(this.params.searchRadius, this.params.stepSize) : this.params.stepSize;
+    const byCost = [...orphaned].sort((a, b) => this.nodes[a].cost - this.nodes[b].cost);
+    for (const id of byCost) {
+      const node = this.nodes[id];
+      if (!cut.has(id) && attached(node.parentId!)) {
+        node.cost = this.nodes[node.parentId!].cost + edgeCost(this.nodes[node.parentId!], node, this.costRegions);
+        reattached.add(id);
+        this.dirtyNodes.add(id);
+        continue;
+      }
+      let best: { node: Node; edge: CurveEdge | undefined; cost: number } | null = null;
+      const index = this.indexFor(node.tree ?? 'start');
+      for (const candidateId of index.near(node, reach)) {
+        const candidate = this.nodes[candidateId];
+        if (candidateId === id || !attached(candidateId)) continue;
+        const link = this.link(candidate, node);
+        if (!link || (best && candidate.cost + link.cost >= best.cost)) continue;
+        if (!this.linkCollides(candidate, node, link.edge)) best = { node: candidate, edge: link.edge, cost: candidate.cost + link.cost };
+      }
+      if (best) {
+        this.reparent(node, best.node.id);
+        node.cost = best.cost;
+        if (best.edge) node.edge = best.edge;
+        node.rewires = (node.rewires ?? 0) + 1;
+        reattached.add(id);
+        this.counters.reconnected++;
+        this.events.push({ type: 'rewire', iteration: this.iteration, id, parentId: best.node.id, edge: best.edge });
+      }
+    }
+
+    // 3. Prune what could not be reattached
+    for (const id of byCost) {
+      if (reattached.has(id)) continue;
+      const node = this.nodes[id];
+      if (node.parentId !== null) this.detach(node);
+      node.parentId = null;
+      node.children = [];
+      node.pruned = true;
+      this.dirtyNodes.add(id);
+      this.counters.pruned++;
+      this.events.push({ type: 'prune', iteration: this.iteration, id });
+    }
+
+    // Pruned nodes leave the spatial indexes and the goal candidates
+    this.index = createSpatialIndex(this.params.spatialIndex, this.width, this.height, this.params.stepSize);
+    if (this.goalIndex) this.goalIndex = createSpatialIndex(this.params.spatialIndex, this.width, this.height, this.params.stepSize);
+    for (const node of this.nodes) {
+      if (!node.pruned) this.indexFor(node.tree ?? 'start').insert(node.id, node);
+    }
+    this.goalCandidates = this.goalCandidates.filter(id => !this.nodes[id].pruned);
+
+    // RRT-Connect: a blocked or pruned bridge means the trees are apart again
+    if (this.connection) {
+      const a = this.nodes[this.connection.startNode];
+      const b = this.nodes[this.connection.goalNode];
+      if (a.pruned || b.pruned || blocked(a, b)) {
+        this.connection = null;
+        this.events.push({ type: 'disconnect', iteration: this.iteration });
+      }
     }
 
-    if (candidates.length === 0) return [];
+    // The iteration in progress may refer to pruned nodes; start the next one afresh
+    this.resetTemp();
+    this.microState = 'SAMPLE';
+    this.lastSolutionCost = null;
+  }
 
-    candidates.sort((a, b) => this.nodes[a].cost - this.nodes[b].cost);
-    closestNode = candidates[0];
+  private detach(node: Node) {
+    const parent = this.nodes[node.parentId!];
+    parent.children = parent.children.filter(id => id !== node.id);
+    this.dirtyNodes.add(parent.id);
+  }
 
-    const path: number[] = [];
-    let curr: number | null = closestNode;
+  private reparent(node: Node, parentId: number) {
+    if (node.parentId !== null) this.detach(node);
+    node.parentId = parentId;
+    this.nodes[parentId].children.push(node.id);
+    this.dirtyNodes.add(node.id);
+    this.dirtyNodes.add(parentId);
+  }
+
+  // Walks parent links from a node up to its tree's root
+  private chainToRoot(nodeId: number): number[] {
+    const chain: number[] = [];
+    let curr: number | null = nodeId;
     while (curr !== null) {
-      path.push(curr);
+      chain.push(curr);
       curr = this.nodes[curr].parentId;
     }
-    return path.reverse();
+    return chain;
+  }
+
+  getPath(): number[] {
+    if (this.algorithm === 'RRT-Connect') {
+      if (!this.connection) return [];
+      // start root ... bridge ... goal root
+      return [
+        ...this.chainToRoot(this.connection.startNode).reverse(),
+        ...this.chainToRoot(this.connection.goalNode),
+      ];
+    }
+
+    // The cheapest goal reached wins
+    const best = this.bestCandidate();
+    return best ? this.chainToRoot(best.id).reverse() : [];
+  }
+
+  // Cost of a node path (also covers RRT-Connect's bridge between two trees)
+  getPathCost(path: number[]): number | null {
+    if (path.length === 0) return null;
+    let cost = 0;
+    for (let i = 1; i < path.length; i++) {
+      cost += edgeCost(this.nodes[path[i - 1]], this.nodes[path[i]], this.costRegions);
+    }
+    return cost;
+  }
+
+  getStatus(): SolverStatus {
+    const path = this.getPath();
+    return {
+      microState: this.microState,
+      tempSample: this.tempSample,
+      tempNewPoint: this.tempNewPoint,
+      tempNearest: this.tempNearestNode,
+      path,
+      pathCost: this.getPathCost(path),
+      nodeCount: this.liveCount,
+      iteration: this.iteration,
+      solveMs: this.solveMs,
+      activeTree: this.algorithm === 'RRT-Connect' ? this.activeTree : null,
+      informedEllipse: this.informedEllipse,
+      rewireRadius: this.rewireRadius,
+      rewireK: this.rewireK,
+      queryStats: { ...this.queryStats },
+      collisionStats: { ...this.collisionStats },
+      counters: { ...this.counters },
+    };
+  }
+
+  // Returns everything added or modified since the previous call
+  takeDiff(): TreeDiff {
+    const offset = this.flushedCount;
+    const added = this.nodes.slice(offset);
+    const changed: Node[] = [];
+    for (const id of this.dirtyNodes) {
+      if (id < offset) changed.push(this.nodes[id]);
+    }
+    const events = this.events.slice(this.flushedEvents);
+    this.flushedCount = this.nodes.length;
+    this.flushedEvents = this.events.length;
+    this.dirtyNodes.clear();
+    return { offset, added, changed, events };
+  }
+
+  // Full state; also marks everything as flushed so later diffs continue from here
+  snapshot(): TreeSnapshot {
+    this.flushedCount = this.nodes.length;
+    this.flushedEvents = this.events.length;
+    this.dirtyNodes.clear();
+    return { ...this.getStatus(), nodes: this.nodes, seed: this.seed, events: this.events };
   }
 }
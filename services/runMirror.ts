@@ -0,0 +1,34 @@
+import { Node, SolverStatus, TimelineEvent, TreeDiff } from '../types';
+import { SolverResponse } from './solverProtocol';
+
+// Main-thread copy of a worker run, rebuilt from the diffs it sends back.
+// `nodes` and `events` are extended in place, like the main run's tree and timeline log,
+// so a diff costs its own size rather than the tree's; `revision` counts node changes.
+export interface RunMirror {
+  nodes: Node[];
+  revision: number;
+  events: TimelineEvent[];
+  status: SolverStatus | null;
+}
+
+export const emptyRun = (): RunMirror => ({ nodes: [], revision: 0, events: [], status: null });
+
+// Appends the diff's new nodes and swaps in the changed ones
+export const patchNodes = (nodes: Node[], diff: TreeDiff) => {
+  for (const node of diff.added) nodes.push(node);
+  for (const node of diff.changed) nodes[node.id] = node;
+};
+
+// The mirror after a worker reply, or null if a diff does not line up with it
+// and a snapshot has to be requested
+export const applySolverResponse = (mirror: RunMirror, msg: SolverResponse): RunMirror | null => {
+  if (msg.type === 'snapshot') {
+    return { nodes: msg.snapshot.nodes, revision: mirror.revision + 1, events: [...msg.snapshot.events], status: msg.snapshot };
+  }
+  const { diff, status } = msg;
+  if (diff.offset !== mirror.nodes.length) return null;
+  mirror.events.push(...diff.events);
+  if (diff.added.length === 0 && diff.changed.length === 0) return { ...mirror, status };
+  patchNodes(mirror.nodes, diff);
+  return { ...mirror, revision: mirror.revision + 1, status };
+};
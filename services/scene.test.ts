@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SceneError, decodeSceneHash, encodeSceneHash, hasSceneHash, parseScene, sceneFromJson, sceneToJson } from './scene';
+import { circleGoal } from '../utils/goals';
+
+// A version 1 file as the app first wrote it; later versions must keep reading it
+const V1_SCENE = {
+  version: 1,
+  width: 800,
+  height: 600,
+  start: { x: 50, y: 300 },
+  goal: { x: 750, y: 300 },
+  obstacles: [
+    { kind: 'rect', x: 300, y: 100, w: 50, h: 400 },
+    { kind: 'circle', x: 500, y: 200, r: 40 },
+    { kind: 'polygon', points: [{ x: 550, y: 400 }, { x: 650, y: 400 }, { x: 600, y: 480 }] },
+  ],
+  algorithm: 'RRT*',
+  params: {
+    stepSize: 20, maxIterations: 3000, goalBias: 0.05, searchRadius: 60, spatialIndex: 'grid', collisionMode: 'exact',
+    informed: true, radiusMode: 'kNearest', gamma: 0, kScale: 2.718,
+  },
+  seed: 12345,
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Parses the fixture with one field replaced and returns the error's path
+const errorPath = (edit: (scene: any) => void): string => {
+  const scene = clone(V1_SCENE);
+  edit(scene);
+  try {
+    parseScene(scene);
+  } catch (e) {
+    assert.ok(e instanceof SceneError);
+    return e.path;
+  }
+  assert.fail('the scene should have been rejected');
+};
+
+test('a scene survives the JSON round trip', () => {
+  const scene = parseScene(V1_SCENE);
+  assert.deepEqual(sceneFromJson(sceneToJson(scene)), scene);
+});
+
+test('a scene survives the URL hash round trip', async () => {
+  const scene = parseScene(V1_SCENE);
+  const hash = await encodeSceneHash(scene);
+  assert.ok(hasSceneHash(hash));
+  assert.deepEqual(await decodeSceneHash(hash), scene);
+});
+
+test('a version 1 goal point becomes a circular goal region', () => {
+  const scene = parseScene(V1_SCENE);
+  assert.equal(scene.goals.length, 1);
+  assert.deepEqual(scene.goals[0], circleGoal({ x: 750, y: 300 }));
+});
+
+test('unknown fields are dropped', () => {
+  const scene = parseScene({ ...clone(V1_SCENE), comment: 'hello' });
+  assert.ok(!('comment' in scene));
+});
+
+test('invalid fields are reported by path', () => {
+  assert.equal(errorPath(s => { s.width = 10; }), 'width');
+  assert.equal(errorPath(s => { s.start.x = 900; }), 'start.x');
+  assert.equal(errorPath(s => { s.obstacles[1].r = -1; }), 'obstacles[1].r');
+  assert.equal(errorPath(s => { s.obstacles[0].kind = 'hexagon'; }), 'obstacles[0].kind');
+  assert.equal(errorPath(s => { s.params.spatialIndex = 'kd-tree'; }), 'params.spatialIndex');
+  assert.equal(errorPath(s => { s.seed = 1.5; }), 'seed');
+  // A bow tie crosses itself
+  assert.equal(errorPath(s => {
+    s.obstacles[2].points = [{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }];
+  }), 'obstacles[2].points');
+});
+
+test('newer versions and broken files are rejected', async () => {
+  assert.equal(errorPath(s => { s.version = 999; }), 'version');
+  assert.throws(() => sceneFromJson('{ not json'), SceneError);
+  await assert.rejects(decodeSceneHash('#other=abc'), SceneError);
+});
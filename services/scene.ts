@@ -0,0 +1,272 @@
+import { AlgorithmType, CollisionMode, CostRegion, Goal, MotionModel, Obstacle, OccupancyGrid, Point, RadiusMode, Scene, SolverParams, SpatialIndexType } from '../types';
+import { isSimplePolygon, pointInObstacle } from '../utils/geo';
+import { DEFAULT_TURNING_RADIUS } from '../utils/curves';
+import { MAX_COST_MULTIPLIER, MIN_COST_MULTIPLIER } from '../utils/costRegions';
+import { circleGoal } from '../utils/goals';
+import { MAX_MAP_SIDE, decodeCellRuns, encodeCellRuns } from './occupancyMap';
+
+// Scene file format. Bump the version whenever a field changes meaning, and teach
+// parseScene to upgrade the older versions it still accepts.
+// 2: a list of goals with regions replaces the single goal point.
+export const SCENE_VERSION = 2;
+
+// World side lengths a scene may use
+export const MIN_WORLD = 100;
+export const MAX_WORLD = 32768;
+const HASH_PREFIX = '#scene=';
+
+const ALGORITHMS: AlgorithmType[] = ['RRT', 'RRT*', 'RRT-Connect'];
+const SPATIAL_INDEXES: SpatialIndexType[] = ['linear', 'grid'];
+const COLLISION_MODES: CollisionMode[] = ['exact', 'sampled'];
+const RADIUS_MODES: RadiusMode[] = ['fixed', 'shrinking', 'kNearest'];
+const MOTION_MODELS: MotionModel[] = ['holonomic', 'dubins', 'reedsShepp'];
+
+// Thrown for anything that is not a valid scene; `path` points at the offending field
+export class SceneError extends Error {
+  path: string;
+
+  constructor(path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'SceneError';
+    this.path = path;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+};
+
+const readObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isObject(value)) throw new SceneError(path, `expected an object, got ${describe(value)}`);
+  return value;
+};
+
+const readNumber = (value: unknown, path: string, min = -Infinity, max = Infinity): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SceneError(path, `expected a number, got ${describe(value)}`);
+  }
+  if (value < min || value > max) {
+    const range = max === Infinity ? `>= ${min}` : min === -Infinity ? `<= ${max}` : `between ${min} and ${max}`;
+    throw new SceneError(path, `must be ${range}, got ${value}`);
+  }
+  return value;
+};
+
+const readInteger = (value: unknown, path: string, min: number, max: number): number => {
+  const n = readNumber(value, path, min, max);
+  if (!Number.isInteger(n)) throw new SceneError(path, `expected an integer, got ${n}`);
+  return n;
+};
+
+const readBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw new SceneError(path, `expected true or false, got ${describe(value)}`);
+  return value;
+};
+
+const readEnum = <T extends string>(value: unknown, path: string, allowed: T[]): T => {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new SceneError(path, `expected one of ${allowed.map(a => `"${a}"`).join(', ')}, got ${describe(value)}`);
+  }
+  return value as T;
+};
+
+const readPoint = (value: unknown, path: string, width: number, height: number): Point => {
+  const obj = readObject(value, path);
+  return {
+    x: readNumber(obj.x, `${path}.x`, 0, width),
+    y: readNumber(obj.y, `${path}.y`, 0, height),
+  };
+};
+
+const readObstacle = (value: unknown, path: string): Obstacle => {
+  const obj = readObject(value, path);
+  const kind = readEnum(obj.kind, `${path}.kind`, ['rect', 'circle', 'polygon']);
+  if (kind === 'rect') {
+    return {
+      kind,
+      x: readNumber(obj.x, `${path}.x`),
+      y: readNumber(obj.y, `${path}.y`),
+      w: readNumber(obj.w, `${path}.w`, 0),
+      h: readNumber(obj.h, `${path}.h`, 0),
+    };
+  }
+  if (kind === 'circle') {
+    return {
+      kind,
+      x: readNumber(obj.x, `${path}.x`),
+      y: readNumber(obj.y, `${path}.y`),
+      r: readNumber(obj.r, `${path}.r`, 0),
+    };
+  }
+  if (!Array.isArray(obj.points)) throw new SceneError(`${path}.points`, `expected an array, got ${describe(obj.points)}`);
+  const points = obj.points.map((p, i) => {
+    const pt = readObject(p, `${path}.points[${i}]`);
+    return { x: readNumber(pt.x, `${path}.points[${i}].x`), y: readNumber(pt.y, `${path}.points[${i}].y`) };
+  });
+  if (!isSimplePolygon(points)) {
+    throw new SceneError(`${path}.points`, 'polygon needs at least 3 vertices and must not cross itself');
+  }
+  return { kind, points };
+};
+
+const readCostRegion = (value: unknown, path: string): CostRegion => {
+  const obj = readObject(value, path);
+  return {
+    shape: readObstacle(obj.shape, `${path}.shape`),
+    multiplier: readNumber(obj.multiplier, `${path}.multiplier`, MIN_COST_MULTIPLIER, MAX_COST_MULTIPLIER),
+  };
+};
+
+const readGoal = (value: unknown, path: string, width: number, height: number): Goal => {
+  const obj = readObject(value, path);
+  const point = readPoint(obj, path, width, height);
+  const region = readObstacle(obj.region, `${path}.region`);
+  if (region.kind === 'polygon') throw new SceneError(`${path}.region.kind`, 'expected "circle" or "rect", got "polygon"');
+  if (!pointInObstacle(point, region)) throw new SceneError(`${path}.region`, 'must contain the goal point');
+  return { ...point, region };
+};
+
+const readGoals = (obj: Record<string, unknown>, version: number, width: number, height: number): Goal[] => {
+  // Version 1 stored one goal point; it gets the default circular region
+  if (version === 1) return [circleGoal(readPoint(obj.goal, 'goal', width, height))];
+  if (!Array.isArray(obj.goals)) throw new SceneError('goals', `expected an array, got ${describe(obj.goals)}`);
+  if (obj.goals.length === 0) throw new SceneError('goals', 'needs at least one goal');
+  return obj.goals.map((g, i) => readGoal(g, `goals[${i}]`, width, height));
+};
+
+// Stored run-length encoded, see encodeCellRuns
+const readOccupancy = (value: unknown, path: string): OccupancyGrid | null => {
+  if (value === undefined || value === null) return null;
+  const obj = readObject(value, path);
+  const cols = readInteger(obj.cols, `${path}.cols`, 1, MAX_MAP_SIDE);
+  const rows = readInteger(obj.rows, `${path}.rows`, 1, MAX_MAP_SIDE);
+  const resolution = readNumber(obj.resolution, `${path}.resolution`, 0.01, 100);
+  if (!Array.isArray(obj.runs)) throw new SceneError(`${path}.runs`, `expected an array, got ${describe(obj.runs)}`);
+  const runs = obj.runs.map((r, i) => readInteger(r, `${path}.runs[${i}]`, 0, cols * rows));
+  try {
+    return { cols, rows, resolution, cells: decodeCellRuns(runs, cols * rows) };
+  } catch (e) {
+    throw new SceneError(`${path}.runs`, (e as Error).message);
+  }
+};
+
+const readParams = (value: unknown, path: string): SolverParams => {
+  const obj = readObject(value, path);
+  return {
+    stepSize: readNumber(obj.stepSize, `${path}.stepSize`, 1, 1000),
+    maxIterations: readInteger(obj.maxIterations, `${path}.maxIterations`, 2, 1000000),
+    goalBias: readNumber(obj.goalBias, `${path}.goalBias`, 0, 1),
+    searchRadius: readNumber(obj.searchRadius, `${path}.searchRadius`, 0),
+    spatialIndex: readEnum(obj.spatialIndex, `${path}.spatialIndex`, SPATIAL_INDEXES),
+    collisionMode: readEnum(obj.collisionMode, `${path}.collisionMode`, COLLISION_MODES),
+    informed: readBoolean(obj.informed, `${path}.informed`),
+    radiusMode: readEnum(obj.radiusMode, `${path}.radiusMode`, RADIUS_MODES),
+    gamma: readNumber(obj.gamma, `${path}.gamma`, 0),
+    kScale: readNumber(obj.kScale, `${path}.kScale`, 0),
+    // Car steering came later; scenes saved before it use a point robot
+    motionModel: obj.motionModel === undefined ? 'holonomic' : readEnum(obj.motionModel, `${path}.motionModel`, MOTION_MODELS),
+    turningRadius: obj.turningRadius === undefined ? DEFAULT_TURNING_RADIUS : readNumber(obj.turningRadius, `${path}.turningRadius`, 1, 1000),
+    startHeading: obj.startHeading === undefined ? 0 : readNumber(obj.startHeading, `${path}.startHeading`, -Math.PI, Math.PI),
+  };
+};
+
+// Validates untrusted input (a parsed file or URL) and returns a clean Scene.
+// Unknown extra fields are dropped.
+export const parseScene = (value: unknown): Scene => {
+  const obj = readObject(value, '');
+  const version = readInteger(obj.version, 'version', 1, Number.MAX_SAFE_INTEGER);
+  if (version > SCENE_VERSION) {
+    throw new SceneError('version', `scene version ${version} is newer than this app supports (${SCENE_VERSION})`);
+  }
+
+  const width = readNumber(obj.width, 'width', MIN_WORLD, MAX_WORLD);
+  const height = readNumber(obj.height, 'height', MIN_WORLD, MAX_WORLD);
+  if (!Array.isArray(obj.obstacles)) throw new SceneError('obstacles', `expected an array, got ${describe(obj.obstacles)}`);
+  // Cost regions came later; scenes saved before them have none
+  const costRegions = obj.costRegions ?? [];
+  if (!Array.isArray(costRegions)) throw new SceneError('costRegions', `expected an array, got ${describe(costRegions)}`);
+
+  return {
+    version: SCENE_VERSION,
+    width,
+    height,
+    start: readPoint(obj.start, 'start', width, height),
+    goals: readGoals(obj, version, width, height),
+    obstacles: obj.obstacles.map((o, i) => readObstacle(o, `obstacles[${i}]`)),
+    occupancy: readOccupancy(obj.occupancy, 'occupancy'),
+    costRegions: costRegions.map((r, i) => readCostRegion(r, `costRegions[${i}]`)),
+    algorithm: readEnum(obj.algorithm, 'algorithm', ALGORITHMS),
+    params: readParams(obj.params, 'params'),
+    seed: readInteger(obj.seed, 'seed', 0, 0xFFFFFFFF),
+  };
+};
+
+// The occupancy grid is written as runs; scenes without one omit the field
+const toSerializable = (scene: Scene) => {
+  const { occupancy, ...rest } = scene;
+  if (!occupancy) return rest;
+  const { cells, ...grid } = occupancy;
+  return { ...rest, occupancy: { ...grid, runs: encodeCellRuns(cells) } };
+};
+
+export const sceneToJson = (scene: Scene): string => {
+  return JSON.stringify(toSerializable(scene), null, 2) + '\n';
+};
+
+export const sceneFromJson = (text: string): Scene => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    throw new SceneError('', `not valid JSON (${(e as Error).message})`);
+  }
+  return parseScene(value);
+};
+
+// --- URL hash: deflate-raw compressed JSON, base64url encoded ---
+
+const pipeBytes = async (bytes: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const encodeSceneHash = async (scene: Scene): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(toSerializable(scene)));
+  const packed = await pipeBytes(json, new CompressionStream('deflate-raw'));
+  return HASH_PREFIX + toBase64Url(packed);
+};
+
+// True if the hash looks like one produced by encodeSceneHash
+export const hasSceneHash = (hash: string): boolean => hash.startsWith(HASH_PREFIX);
+
+export const decodeSceneHash = async (hash: string): Promise<Scene> => {
+  if (!hasSceneHash(hash)) throw new SceneError('', `URL hash does not start with "${HASH_PREFIX}"`);
+  let json: string;
+  try {
+    const packed = fromBase64Url(hash.slice(HASH_PREFIX.length));
+    json = new TextDecoder().decode(await pipeBytes(packed, new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new SceneError('', 'the scene in the link is corrupted or truncated');
+  }
+  return sceneFromJson(json);
+};
@@ -0,0 +1,57 @@
+import { RRTTree } from './rrt';
+import { SolverRequest, SolverResponse } from './solverProtocol';
+
+// Owns the RRTTree so growing it never blocks rendering on the main thread
+let tree: RRTTree | null = null;
+let currentRunId = -1;
+
+const post = (msg: SolverResponse) => {
+  self.postMessage(msg);
+};
+
+const sendDiff = () => {
+  if (!tree) return;
+  post({ type: 'diff', runId: currentRunId, diff: tree.takeDiff(), status: tree.getStatus() });
+};
+
+self.addEventListener('message', (e: MessageEvent<SolverRequest>) => {
+  const msg = e.data;
+
+  switch (msg.type) {
+    case 'init': {
+      const { width, height, start, goals, obstacles, occupancy, costRegions, params, algorithm, seed } = msg.config;
+      tree = new RRTTree(width, height, start, goals, obstacles, params, algorithm, seed, occupancy, costRegions);
+      currentRunId = msg.runId;
+      sendDiff();
+      break;
+    }
+
+    case 'step':
+      if (!tree || msg.runId !== currentRunId) return;
+      for (let i = 0; i < msg.count; i++) tree.step();
+      sendDiff();
+      break;
+
+    case 'micro':
+      if (!tree || msg.runId !== currentRunId) return;
+      for (let i = 0; i < msg.count; i++) tree.stepMicro();
+      sendDiff();
+      break;
+
+    case 'replan':
+      if (!tree || msg.runId !== currentRunId) return;
+      tree.replan(msg.obstacles);
+      sendDiff();
+      break;
+
+    case 'snapshot':
+      if (!tree || msg.runId !== currentRunId) return;
+      post({ type: 'snapshot', runId: currentRunId, snapshot: tree.snapshot() });
+      break;
+
+    case 'reset':
+      tree = null;
+      currentRunId = -1;
+      break;
+  }
+});
@@ -0,0 +1,75 @@
+import { Obstacle } from '../types';
+import { SolverConfig, SolverRequest, SolverResponse } from './solverProtocol';
+
+// Main-thread handle to the solver worker. Keeps track of the active run and
+// drops replies that belong to a run that has since been reset.
+export class SolverClient {
+  private worker: Worker;
+  private runId = 0;
+  private active = false;
+  private inFlight = 0;
+  private onMessage: (msg: SolverResponse) => void;
+
+  constructor(onMessage: (msg: SolverResponse) => void) {
+    this.onMessage = onMessage;
+    this.worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.addEventListener('message', (e: MessageEvent<SolverResponse>) => {
+      if (e.data.runId !== this.runId) return;
+      this.inFlight = Math.max(0, this.inFlight - 1);
+      this.onMessage(e.data);
+    });
+  }
+
+  // True once init has been sent for the current run
+  get hasRun(): boolean {
+    return this.active;
+  }
+
+  // Number of requests still waiting for a reply; the play loop waits for zero
+  get pending(): number {
+    return this.inFlight;
+  }
+
+  init(config: SolverConfig) {
+    this.runId++;
+    this.active = true;
+    this.inFlight = 0;
+    this.send({ type: 'init', runId: this.runId, config });
+  }
+
+  step(count: number) {
+    if (!this.active) return;
+    this.send({ type: 'step', runId: this.runId, count });
+  }
+
+  micro(count: number) {
+    if (!this.active) return;
+    this.send({ type: 'micro', runId: this.runId, count });
+  }
+
+  replan(obstacles: Obstacle[]) {
+    if (!this.active) return;
+    this.send({ type: 'replan', runId: this.runId, obstacles });
+  }
+
+  requestSnapshot() {
+    if (!this.active) return;
+    this.send({ type: 'snapshot', runId: this.runId });
+  }
+
+  reset() {
+    this.runId++;
+    this.active = false;
+    this.inFlight = 0;
+    this.worker.postMessage({ type: 'reset' } satisfies SolverRequest);
+  }
+
+  terminate() {
+    this.worker.terminate();
+  }
+
+  private send(msg: SolverRequest) {
+    this.inFlight++;
+    this.worker.postMessage(msg);
+  }
+}
@@ -0,0 +1,29 @@
+import { AlgorithmType, CostRegion, Goal, Obstacle, OccupancyGrid, Point, SolverParams, SolverStatus, TreeDiff, TreeSnapshot } from '../types';
+
+// Everything needed to build an RRTTree on the other side of the worker boundary
+export interface SolverConfig {
+  width: number;
+  height: number;
+  start: Point;
+  goals: Goal[];
+  obstacles: Obstacle[];
+  occupancy: OccupancyGrid | null;
+  costRegions: CostRegion[];
+  params: SolverParams;
+  algorithm: AlgorithmType;
+  seed: number;
+}
+
+// Main thread -> worker. `runId` tags a tree so replies from a discarded run can be ignored.
+export type SolverRequest =
+  | { type: 'init'; runId: number; config: SolverConfig }
+  | { type: 'step'; runId: number; count: number }   // full iterations
+  | { type: 'micro'; runId: number; count: number }  // single lines of pseudocode
+  | { type: 'snapshot'; runId: number }
+  | { type: 'replan'; runId: number; obstacles: Obstacle[] } // repair the tree for new obstacles
+  | { type: 'reset' };
+
+// Worker -> main thread
+export type SolverResponse =
+  | { type: 'diff'; runId: number; diff: TreeDiff; status: SolverStatus }
+  | { type: 'snapshot'; runId: number; snapshot: TreeSnapshot };
@@ -0,0 +1,189 @@
+import { AlgorithmType, CodeStep, CostRegion, EdgeEnd, Goal, Node, Point, TimelineEvent, TreeSide } from '../types';
+import { edgeCost } from '../utils/costRegions';
+import { reachesGoal } from '../utils/goals';
+
+// The tree and the pseudocode position as they were after a given iteration
+export interface TimelineFrame {
+  iteration: number;
+  nodes: Node[];
+  path: number[];
+  pathCost: number | null;
+  microState: CodeStep;
+  tempSample: Point | null;
+  tempNewPoint: EdgeEnd | null;
+  tempNearest: Node | null;
+  activeTree: TreeSide | null;
+}
+
+// What the replay needs to know about the run besides its events
+export interface TimelineContext {
+  algorithm: AlgorithmType;
+  goals: Goal[];
+  costRegions: CostRegion[];
+}
+
+// Number of events belonging to iterations before `iteration` (events are in iteration order)
+const eventsBefore = (events: TimelineEvent[], iteration: number): number => {
+  let lo = 0;
+  let hi = events.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (events[mid].iteration < iteration) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Costs are not logged: rewires change whole subtrees, so recompute them from the roots
+const assignCosts = (nodes: Node[], costRegions: CostRegion[]) => {
+  const queue = nodes.filter(n => n.parentId === null && !n.pruned);
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    for (const childId of node.children) {
+      const child = nodes[childId];
+      child.cost = node.cost + edgeCost(node, child, costRegions);
+      queue.push(child);
+    }
+  }
+};
+
+const chainToRoot = (nodes: Node[], nodeId: number): number[] => {
+  const chain: number[] = [];
+  let curr: number | null = nodeId;
+  while (curr !== null) {
+    chain.push(curr);
+    curr = nodes[curr].parentId;
+  }
+  return chain;
+};
+
+// Mirrors RRTTree.getPath for a replayed tree
+const findPath = (nodes: Node[], connection: { startNode: number; goalNode: number } | null, context: TimelineContext): number[] => {
+  if (context.algorithm === 'RRT-Connect') {
+    if (!connection) return [];
+    return [...chainToRoot(nodes, connection.startNode).reverse(), ...chainToRoot(nodes, connection.goalNode)];
+  }
+  let best: Node | null = null;
+  for (const node of nodes) {
+    if (node.pruned) continue;
+    if (reachesGoal(node, context.goals) && (best === null || node.cost < best.cost)) best = node;
+  }
+  return best ? chainToRoot(nodes, best.id).reverse() : [];
+};
+
+// Rebuilds the run as it stood once `iteration` iterations had completed.
+// The last of those iterations supplies the sample, candidate edge and code line shown.
+export const replayTimeline = (events: TimelineEvent[], iteration: number, context: TimelineContext): TimelineFrame => {
+  const count = eventsBefore(events, iteration);
+  const nodes: Node[] = [];
+  let connection: { startNode: number; goalNode: number } | null = null;
+  let last: TimelineEvent | null = null;
+
+  for (let i = 0; i < count; i++) {
+    const event = events[i];
+    switch (event.type) {
+      case 'add': {
+        const node: Node = { id: event.id, x: event.x, y: event.y, parentId: event.parentId, cost: 0, children: [] };
+        if (event.tree) node.tree = event.tree;
+        if (event.heading !== undefined) node.heading = event.heading;
+        if (event.edge) node.edge = event.edge;
+        nodes[event.id] = node;
+        if (event.parentId !== null) nodes[event.parentId].children.push(event.id);
+        break;
+      }
+      case 'rewire': {
+        const node = nodes[event.id];
+        if (node.parentId !== null) {
+          const oldParent = nodes[node.parentId];
+          oldParent.children = oldParent.children.filter(id => id !== node.id);
+        }
+        node.parentId = event.parentId;
+        if (event.edge) node.edge = event.edge;
+        node.rewires = (node.rewires ?? 0) + 1;
+        nodes[event.parentId].children.push(node.id);
+        break;
+      }
+      case 'connect':
+        connection = { startNode: event.startNode, goalNode: event.goalNode };
+        break;
+      case 'disconnect':
+        connection = null;
+        break;
+      case 'prune': {
+        const node = nodes[event.id];
+        if (node.parentId !== null) {
+          const parent = nodes[node.parentId];
+          parent.children = parent.children.filter(id => id !== node.id);
+        }
+        node.parentId = null;
+        node.children = [];
+        node.pruned = true;
+        break;
+      }
+    }
+    if (event.type === 'add' || event.type === 'reject' || event.type === 'connect') last = event;
+  }
+  assignCosts(nodes, context.costRegions);
+
+  const path = findPath(nodes, connection, context);
+  let pathCost: number | null = null;
+  if (path.length > 0) {
+    pathCost = 0;
+    for (let i = 1; i < path.length; i++) pathCost += edgeCost(nodes[path[i - 1]], nodes[path[i]], context.costRegions);
+  }
+
+  const frame: TimelineFrame = {
+    iteration,
+    nodes,
+    path,
+    pathCost,
+    microState: 'IDLE',
+    tempSample: null,
+    tempNewPoint: null,
+    tempNearest: null,
+    activeTree: null,
+  };
+
+  // Roots alone have nothing to highlight
+  if (last && !(last.type === 'add' && last.parentId === null)) {
+    if (last.type === 'add') {
+      const node = nodes[last.id];
+      frame.tempSample = last.sample;
+      frame.tempNewPoint = node;
+      frame.tempNearest = last.parentId !== null ? nodes[last.parentId] : null;
+      frame.microState = context.algorithm === 'RRT*' ? 'REWIRE' : context.algorithm === 'RRT-Connect' ? 'CONNECT' : 'ADD_NODE';
+      frame.activeTree = node.tree ?? null;
+    } else if (last.type === 'reject') {
+      frame.tempSample = last.sample;
+      frame.tempNewPoint = last.to;
+      frame.tempNearest = nodes[last.from];
+      frame.microState = 'COLLISION_CHECK';
+      frame.activeTree = nodes[last.from].tree ?? null;
+    } else if (last.type === 'connect') {
+      frame.microState = 'CONNECT';
+    }
+  }
+  return frame;
+};
+
+// A change of the best path cost, logged at the end of `iteration` after `time` ms of solving
+export interface SolutionPoint {
+  iteration: number;
+  cost: number;
+  time: number;
+  replanned: boolean; // First cost after a replan: the tree was cut, so it may be higher than the last
+}
+
+// Iterations at which the path cost changed, for markers on the scrubber and the convergence chart
+export const solutionMarkers = (events: TimelineEvent[]): SolutionPoint[] => {
+  const markers: SolutionPoint[] = [];
+  let replanned = false;
+  for (const event of events) {
+    if (event.type === 'replan') replanned = markers.length > 0;
+    if (event.type === 'solution') {
+      markers.push({ iteration: event.iteration, cost: event.cost, time: event.time, replanned });
+      replanned = false;
+    }
+  }
+  return markers;
+};
@@ -4,27 +4,251 @@ export interface Point {
   y: number;
 }
 
-export interface Node extends Point {
+// Car-like robots (Dubins / Reeds-Shepp) also have a heading: radians from the +x axis,
+// clockwise on screen since canvas y points down
+export interface Pose extends Point {
+  heading: number;
+}
+
+// Turn left, go straight, turn right
+export type SegmentType = 'L' | 'S' | 'R';
+
+export interface CurveSegment {
+  type: SegmentType;
+  length: number; // px along the curve, negative when driving in reverse
+}
+
+// Minimum-turning-radius curve between two poses, as found by utils/curves.ts
+export interface CurveEdge {
+  segments: CurveSegment[];
+  radius: number;
+  length: number; // Total, reverse segments included
+}
+
+// End of an edge. In the car modes it also carries the heading there and the curve
+// leading to it; without `edge` the edge is a straight segment.
+export interface EdgeEnd extends Point {
+  heading?: number;
+  edge?: CurveEdge;
+}
+
+export interface Node extends EdgeEnd {
   id: number;
   parentId: number | null;
   cost: number; // Cost from root to this node
   children: number[];
+  tree?: TreeSide; // RRT-Connect only: which of the two trees the node belongs to
+  pruned?: boolean; // Cut off by replanning. Kept (detached) so node ids stay stable.
+  rewires?: number; // Times the node got a new parent after it was added (RRT* rewiring, replanning)
 }
 
-export interface Obstacle {
+// RRT-Connect grows one tree from the start and one from the goal
+export type TreeSide = 'start' | 'goal';
+
+export interface RectObstacle {
+  kind: 'rect';
   x: number;
   y: number;
   w: number;
   h: number;
 }
 
-export type AlgorithmType = 'RRT' | 'RRT*';
+export interface CircleObstacle {
+  kind: 'circle';
+  x: number; // centre
+  y: number;
+  r: number;
+}
+
+// Simple (non self-intersecting) polygon, vertices in drawing order
+export interface PolygonObstacle {
+  kind: 'polygon';
+  points: Point[];
+}
+
+export type Obstacle = RectObstacle | CircleObstacle | PolygonObstacle;
+
+export type ObstacleKind = Obstacle['kind'];
+
+// Terrain painted over the free space: an edge costs its length times the multiplier of the
+// region it runs through (> 1 mud or grass, < 1 a preferred lane, 1 elsewhere). Where
+// regions overlap the topmost (last) one applies. Regions never block.
+export interface CostRegion {
+  shape: Obstacle;
+  multiplier: number;
+}
+
+// A place a run may end: the point the final edge must reach and the region around it
+// (a circle of user-set radius or a drawn rectangle, always containing the point). A node
+// inside the region tries a direct, collision-checked edge to the point; car modes, which
+// cannot hit a point in a chosen heading, count arrival anywhere inside the region.
+export interface Goal extends Point {
+  region: CircleObstacle | RectObstacle;
+}
+
+// Bitmap collision layer (e.g. a ROS map_server image). Cell (c, r) covers world
+// pixels [c * resolution, (c + 1) * resolution) on each axis; 1 = occupied.
+export interface OccupancyGrid {
+  cols: number;
+  rows: number;
+  resolution: number; // world pixels per cell
+  cells: Uint8Array;
+}
+
+// How a grayscale image becomes an OccupancyGrid
+export interface OccupancyOptions {
+  threshold: number; // 0..1, a pixel is occupied when its darkness exceeds this (ROS occupied_thresh)
+  invert: boolean; // treat light pixels as occupied instead (ROS negate)
+  resolution: number;
+}
+
+export type AlgorithmType = 'RRT' | 'RRT*' | 'RRT-Connect';
+
+// Data structure answering Nearest / Near queries
+export type SpatialIndexType = 'linear' | 'grid';
+
+// 'exact' clips segments against boxes, 'sampled' tests points every 5px
+export type CollisionMode = 'exact' | 'sampled';
+
+// How RRT* picks its Near set: fixed radius, the asymptotically optimal
+// shrinking radius (Karaman & Frazzoli), or the k nearest nodes
+export type RadiusMode = 'fixed' | 'shrinking' | 'kNearest';
+
+// Post-processing applied to the found path (does not affect the tree)
+export type ShortcutMode = 'none' | 'greedy' | 'random';
+export type SmoothingMode = 'none' | 'chaikin';
+
+export interface PathProcessingOptions {
+  shortcut: ShortcutMode;
+  randomIterations: number; // 'random' shortcutting attempts
+  smoothing: SmoothingMode;
+  smoothingIterations: number; // Chaikin corner-cutting rounds
+}
+
+// How the robot moves: a point robot in straight lines, or a car with a minimum turning
+// radius driving forwards only (Dubins) or forwards and in reverse (Reeds-Shepp)
+export type MotionModel = 'holonomic' | 'dubins' | 'reedsShepp';
+
+export type PresetType = 'default' | 'maze' | 'narrow';
 
 export interface SolverParams {
   stepSize: number;
   maxIterations: number;
   goalBias: number; // 0 to 1
   searchRadius: number; // For RRT* rewiring
+  spatialIndex: SpatialIndexType;
+  collisionMode: CollisionMode;
+  informed: boolean; // RRT*: sample inside the informed ellipse once a path exists
+  radiusMode: RadiusMode;
+  gamma: number; // 'shrinking': r = gamma * sqrt(log n / n)
+  kScale: number; // 'kNearest': k = ceil(kScale * log n), e by default
+  motionModel: MotionModel; // RRT and RRT* only; RRT-Connect always treats the robot as a point
+  turningRadius: number; // Car modes: minimum turning radius, px
+  startHeading: number; // Car modes: heading of the root, radians
+}
+
+// Second planner of the side-by-side view: runs on the same scene and seed as the main
+// one, with its own algorithm and the parameters set in `overrides`
+export interface ComparisonConfig {
+  algorithm: AlgorithmType;
+  overrides: Partial<SolverParams>;
+}
+
+// Rotated ellipse: centre, semi-axes and rotation of the major axis (radians)
+export interface Ellipse {
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+  angle: number;
+}
+
+// Cumulative cost of Nearest / Near queries for the current run
+export interface QueryStats {
+  queries: number;
+  distanceChecks: number;
+  queryMs: number;
+}
+
+// segmentChecks: edges tested; primitiveTests: exact segment-vs-shape tests or point samples (sampled)
+export interface CollisionStats {
+  segmentChecks: number;
+  primitiveTests: number;
+}
+
+// What the solver did so far, beyond the node count. Edges tested for collision are in CollisionStats.
+export interface SolverCounters {
+  attempts: number; // Samples drawn, i.e. iterations started
+  rejections: number; // Extensions blocked by an obstacle (COLLISION_CHECK, or a trapped RRT-Connect CONNECT)
+  neighborsExamined: number; // RRT*: total size of the Near sets
+  parentChanges: number; // RRT*: CHOOSE_PARENT picked a cheaper parent than the nearest node
+  rewires: number; // RRT*: existing nodes re-parented to a new node
+  costPropagations: number; // RRT*: descendant costs rewritten by updateCost after a rewire
+  edgesCut: number; // Replanning: edges crossed by an added or moved obstacle
+  reconnected: number; // Replanning: orphaned nodes given a new parent in the surviving tree
+  pruned: number; // Replanning: orphaned nodes that could not be reconnected
+}
+
+// Everything the UI needs besides the node list, sent after every batch of steps
+export interface SolverStatus {
+  microState: CodeStep;
+  tempSample: Point | null;
+  tempNewPoint: EdgeEnd | null;
+  tempNearest: Node | null;
+  path: number[];
+  pathCost: number | null;
+  nodeCount: number;
+  iteration: number; // Completed iterations, including rejected samples
+  solveMs: number; // Time spent growing the tree, excluding pauses and message passing
+  activeTree: TreeSide | null; // RRT-Connect: the tree currently being extended (T_a)
+  informedEllipse: Ellipse | null; // Informed RRT*: current sampling region
+  rewireRadius: number | null; // RRT*: radius of the last Near query (k-th neighbour distance in kNearest mode)
+  rewireK: number | null; // RRT*: k used by the last Near query in kNearest mode
+  queryStats: QueryStats;
+  collisionStats: CollisionStats;
+  counters: SolverCounters;
+}
+
+// Structured log of a run, replayed by the timeline. `iteration` is the index of the
+// iteration (one sample attempt) that produced the event; roots are 'add' events of iteration -1.
+export type TimelineEvent =
+  | { type: 'add'; iteration: number; id: number; parentId: number | null; x: number; y: number; tree?: TreeSide; sample: Point | null; heading?: number; edge?: CurveEdge }
+  | { type: 'reject'; iteration: number; from: number; to: EdgeEnd; sample: Point | null } // blocked edge from node `from`
+  | { type: 'rewire'; iteration: number; id: number; parentId: number; edge?: CurveEdge }
+  | { type: 'connect'; iteration: number; startNode: number; goalNode: number } // RRT-Connect bridge
+  | { type: 'disconnect'; iteration: number } // replanning blocked the RRT-Connect bridge
+  | { type: 'prune'; iteration: number; id: number } // replanning cut the node off the tree
+  | { type: 'replan'; iteration: number } // obstacles changed; the path may now cost more or be gone
+  | { type: 'solution'; iteration: number; cost: number; time: number }; // path cost changed at the end of this iteration; `time` is solveMs then
+
+// Nodes appended since the last flush (ids start at `offset`) plus earlier nodes
+// whose parent, cost or children changed (RRT* rewiring)
+export interface TreeDiff {
+  offset: number;
+  added: Node[];
+  changed: Node[];
+  events: TimelineEvent[]; // Timeline events logged since the last flush
+}
+
+// A complete, shareable scenario (see services/scene.ts for the file format)
+export interface Scene {
+  version: number;
+  width: number;
+  height: number;
+  start: Point;
+  goals: Goal[]; // Candidates; the cheapest one reached wins
+  obstacles: Obstacle[];
+  occupancy: OccupancyGrid | null;
+  costRegions: CostRegion[];
+  algorithm: AlgorithmType;
+  params: SolverParams;
+  seed: number;
+}
+
+export interface TreeSnapshot extends SolverStatus {
+  nodes: Node[];
+  seed: number;
+  events: TimelineEvent[];
 }
 
 export interface SimulationState {
@@ -43,4 +267,6 @@ export type CodeStep =
   | 'CHOOSE_PARENT' // RRT*
   | 'ADD_NODE' 
   | 'REWIRE' // RRT*
+  | 'CONNECT' // RRT-Connect
+  | 'SWAP' // RRT-Connect
   | 'IDLE';
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { minMultiplier, polylineCost, segmentCost } from './costRegions';
+import { CostRegion } from '../types';
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} !== ${expected}`);
+
+const mud: CostRegion = { shape: { kind: 'rect', x: 100, y: 0, w: 100, h: 100 }, multiplier: 3 };
+const lane: CostRegion = { shape: { kind: 'circle', x: 400, y: 50, r: 50 }, multiplier: 0.5 };
+
+test('a segment costs its length outside every region', () => {
+  close(segmentCost({ x: 0, y: 200 }, { x: 300, y: 200 }, [mud, lane]), 300);
+  close(segmentCost({ x: 0, y: 0 }, { x: 30, y: 40 }, []), 50);
+});
+
+test('each part of a segment is weighted by the region it crosses', () => {
+  // 100 px in the open, 100 px of mud at 3x, 100 px in the open
+  close(segmentCost({ x: 0, y: 50 }, { x: 300, y: 50 }, [mud]), 500);
+  // Through the lane's diameter at 0.5x
+  close(segmentCost({ x: 300, y: 50 }, { x: 500, y: 50 }, [lane]), 150);
+  // Ending inside the mud
+  close(segmentCost({ x: 50, y: 50 }, { x: 150, y: 50 }, [mud]), 200);
+});
+
+test('the topmost of overlapping regions counts', () => {
+  const track: CostRegion = { shape: { kind: 'rect', x: 150, y: 0, w: 100, h: 100 }, multiplier: 0.5 };
+  // 50 px of mud, then 100 px of track on top of the rest of the mud
+  close(segmentCost({ x: 100, y: 50 }, { x: 250, y: 50 }, [mud, track]), 50 * 3 + 100 * 0.5);
+  // With the mud on top instead
+  close(segmentCost({ x: 100, y: 50 }, { x: 250, y: 50 }, [track, mud]), 100 * 3 + 50 * 0.5);
+});
+
+test('a polyline costs the sum of its segments', () => {
+  const points = [{ x: 0, y: 50 }, { x: 300, y: 50 }, { x: 300, y: 200 }];
+  close(polylineCost(points, [mud]), 500 + 150);
+  close(polylineCost([points[0]], [mud]), 0);
+});
+
+test('the cheapest multiplier bounds any path from below', () => {
+  assert.equal(minMultiplier([]), 1);
+  assert.equal(minMultiplier([mud]), 1);
+  assert.equal(minMultiplier([mud, lane]), 0.5);
+});
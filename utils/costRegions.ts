@@ -0,0 +1,139 @@
+import { CostRegion, EdgeEnd, Obstacle, Point } from '../types';
+import { dist, obstacleBounds, pointInPolygon } from './geo';
+import { curvePoints, edgeLength } from './curves';
+
+// Range accepted for a region's multiplier
+export const MIN_COST_MULTIPLIER = 0.1;
+export const MAX_COST_MULTIPLIER = 10;
+
+type Interval = [number, number];
+
+// Parameter ranges t in [0, 1] of the segment p1 + t (p2 - p1) that lie inside the shape
+const shapeIntervals = (p1: Point, p2: Point, shape: Obstacle): Interval[] => {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+
+  switch (shape.kind) {
+    case 'rect': {
+      // Liang–Barsky, as in segmentIntersectsRect, keeping the clipped range
+      const p = [-dx, dx, -dy, dy];
+      const q = [p1.x - shape.x, shape.x + shape.w - p1.x, p1.y - shape.y, shape.y + shape.h - p1.y];
+      let t0 = 0;
+      let t1 = 1;
+      for (let i = 0; i < 4; i++) {
+        if (p[i] === 0) {
+          if (q[i] < 0) return [];
+          continue;
+        }
+        const r = q[i] / p[i];
+        if (p[i] < 0) t0 = Math.max(t0, r);
+        else t1 = Math.min(t1, r);
+      }
+      return t0 < t1 ? [[t0, t1]] : [];
+    }
+    case 'circle': {
+      // |p1 + t d - c|² = r²
+      const fx = p1.x - shape.x;
+      const fy = p1.y - shape.y;
+      const a = dx * dx + dy * dy;
+      if (a === 0) return [];
+      const b = 2 * (fx * dx + fy * dy);
+      const c = fx * fx + fy * fy - shape.r * shape.r;
+      const disc = b * b - 4 * a * c;
+      if (disc <= 0) return [];
+      const root = Math.sqrt(disc);
+      const t0 = Math.max(0, (-b - root) / (2 * a));
+      const t1 = Math.min(1, (-b + root) / (2 * a));
+      return t0 < t1 ? [[t0, t1]] : [];
+    }
+    case 'polygon': {
+      // Cut the segment where it crosses an edge, then test the middle of each piece
+      const cuts = [0, 1];
+      const pts = shape.points;
+      for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        const ex = pts[i].x - pts[j].x;
+        const ey = pts[i].y - pts[j].y;
+        const denom = dx * ey - dy * ex;
+        if (denom === 0) continue;
+        const t = ((pts[j].x - p1.x) * ey - (pts[j].y - p1.y) * ex) / denom;
+        const u = ((pts[j].x - p1.x) * dy - (pts[j].y - p1.y) * dx) / denom;
+        if (t > 0 && t < 1 && u >= 0 && u <= 1) cuts.push(t);
+      }
+      cuts.sort((a, b) => a - b);
+      const inside: Interval[] = [];
+      for (let i = 0; i + 1 < cuts.length; i++) {
+        const mid = (cuts[i] + cuts[i + 1]) / 2;
+        if (!pointInPolygon({ x: p1.x + mid * dx, y: p1.y + mid * dy }, pts)) continue;
+        const last = inside[inside.length - 1];
+        if (last && last[1] === cuts[i]) last[1] = cuts[i + 1];
+        else inside.push([cuts[i], cuts[i + 1]]);
+      }
+      return inside;
+    }
+  }
+};
+
+// Cost of a straight segment: its length, weighted by the multiplier of the region each part
+// crosses (the topmost where regions overlap, 1 outside all of them)
+export const segmentCost = (p1: Point, p2: Point, regions: CostRegion[]): number => {
+  const length = dist(p1, p2);
+  if (regions.length === 0 || length === 0) return length;
+
+  const minX = Math.min(p1.x, p2.x), maxX = Math.max(p1.x, p2.x);
+  const minY = Math.min(p1.y, p2.y), maxY = Math.max(p1.y, p2.y);
+  const spans: { multiplier: number; intervals: Interval[] }[] = [];
+  const cuts = [0, 1];
+  for (const region of regions) {
+    const b = obstacleBounds(region.shape);
+    if (maxX < b.minX || minX > b.maxX || maxY < b.minY || minY > b.maxY) continue;
+    const intervals = shapeIntervals(p1, p2, region.shape);
+    if (intervals.length === 0) continue;
+    spans.push({ multiplier: region.multiplier, intervals });
+    for (const [a, c] of intervals) cuts.push(a, c);
+  }
+  if (spans.length === 0) return length;
+
+  cuts.sort((a, b) => a - b);
+  let cost = 0;
+  for (let i = 0; i + 1 < cuts.length; i++) {
+    const piece = cuts[i + 1] - cuts[i];
+    if (piece <= 0) continue;
+    const mid = (cuts[i] + cuts[i + 1]) / 2;
+    let multiplier = 1;
+    for (let k = spans.length - 1; k >= 0; k--) {
+      if (spans[k].intervals.some(([a, c]) => mid >= a && mid <= c)) {
+        multiplier = spans[k].multiplier;
+        break;
+      }
+    }
+    cost += piece * length * multiplier;
+  }
+  return cost;
+};
+
+// Cost of the edge into `child` from its parent. Curves are weighted chord by chord and
+// scaled back to their true length, so a curve outside every region costs exactly its length.
+export const edgeCost = (parent: EdgeEnd, child: EdgeEnd, regions: CostRegion[]): number => {
+  if (regions.length === 0) return edgeLength(parent, child);
+  if (!child.edge) return segmentCost(parent, child, regions);
+
+  const points = curvePoints({ x: parent.x, y: parent.y, heading: parent.heading ?? 0 }, child.edge);
+  let chords = 0;
+  let weighted = 0;
+  for (let i = 1; i < points.length; i++) {
+    chords += dist(points[i - 1], points[i]);
+    weighted += segmentCost(points[i - 1], points[i], regions);
+  }
+  return chords > 0 ? (weighted * child.edge.length) / chords : 0;
+};
+
+export const polylineCost = (points: Point[], regions: CostRegion[]): number => {
+  let cost = 0;
+  for (let i = 1; i < points.length; i++) cost += segmentCost(points[i - 1], points[i], regions);
+  return cost;
+};
+
+// No path can cost less than its length times this, the cheapest multiplier in use
+export const minMultiplier = (regions: CostRegion[]): number => {
+  return regions.reduce((min, r) => Math.min(min, r.multiplier), 1);
+};
@@ -0,0 +1,341 @@
+import { CurveEdge, CurveSegment, MotionModel, Point, Pose, SegmentType } from '../types';
+
+// Shortest paths for car-like robots with a minimum turning radius:
+// Dubins (forward only) and Reeds-Shepp (forward and reverse).
+//
+// The formulas are the usual ones, in a y-up frame where a left turn is counter-clockwise
+// and lengths are in units of the turning radius. Canvas coordinates have y pointing down,
+// so poses are mirrored on the way in and out; 'L' is then a left turn as seen on screen.
+
+export const DEFAULT_TURNING_RADIUS = 40;
+
+const TWO_PI = Math.PI * 2;
+const EPS = 1e-9;
+
+// Angle in [0, 2π). Values a rounding error short of 2π become 0, or a segment that
+// should vanish turns into a full loop.
+const mod2pi = (a: number): number => {
+  const v = a % TWO_PI;
+  const w = v < 0 ? v + TWO_PI : v;
+  return w > TWO_PI - EPS ? 0 : w;
+};
+
+// Angle in (-π, π]
+const wrapPi = (a: number): number => {
+  const v = mod2pi(a);
+  return v > Math.PI ? v - TWO_PI : v;
+};
+
+const polar = (x: number, y: number): [number, number] => [Math.hypot(x, y), Math.atan2(y, x)];
+
+// Lengths of a candidate word, in turning radii, and its segment types
+type Word = { types: SegmentType[]; lengths: number[] };
+
+const totalLength = (w: Word): number => w.lengths.reduce((sum, l) => sum + Math.abs(l), 0);
+
+const shortest = (words: (Word | null)[]): Word | null => {
+  let best: Word | null = null;
+  for (const w of words) {
+    if (w && (best === null || totalLength(w) < totalLength(best))) best = w;
+  }
+  return best;
+};
+
+// --- Dubins (Shkel & Lumelsky, "Classification of the Dubins set") ---
+// alpha / beta are the start and end headings relative to the start -> goal line, d the distance
+
+const dubinsWords = (alpha: number, beta: number, d: number): (Word | null)[] => {
+  const sa = Math.sin(alpha), sb = Math.sin(beta), ca = Math.cos(alpha), cb = Math.cos(beta);
+  const cab = Math.cos(alpha - beta);
+  const d2 = d * d;
+  // p2 is the squared straight length; rounding can push a zero slightly negative
+  const words: (Word | null)[] = [];
+
+  // LSL
+  let p2 = 2 + d2 - 2 * cab + 2 * d * (sa - sb);
+  if (p2 >= -EPS) {
+    const t1 = Math.atan2(cb - ca, d + sa - sb);
+    words.push({ types: ['L', 'S', 'L'], lengths: [mod2pi(t1 - alpha), Math.sqrt(Math.max(0, p2)), mod2pi(beta - t1)] });
+  }
+  // RSR
+  p2 = 2 + d2 - 2 * cab + 2 * d * (sb - sa);
+  if (p2 >= -EPS) {
+    const t1 = Math.atan2(ca - cb, d - sa + sb);
+    words.push({ types: ['R', 'S', 'R'], lengths: [mod2pi(alpha - t1), Math.sqrt(Math.max(0, p2)), mod2pi(t1 - beta)] });
+  }
+  // LSR
+  p2 = -2 + d2 + 2 * cab + 2 * d * (sa + sb);
+  if (p2 >= -EPS) {
+    const p = Math.sqrt(Math.max(0, p2));
+    const t0 = Math.atan2(-ca - cb, d + sa + sb) - Math.atan2(-2, p);
+    words.push({ types: ['L', 'S', 'R'], lengths: [mod2pi(t0 - alpha), p, mod2pi(t0 - beta)] });
+  }
+  // RSL
+  p2 = -2 + d2 + 2 * cab - 2 * d * (sa + sb);
+  if (p2 >= -EPS) {
+    const p = Math.sqrt(Math.max(0, p2));
+    const t0 = Math.atan2(ca + cb, d - sa - sb) - Math.atan2(2, p);
+    words.push({ types: ['R', 'S', 'L'], lengths: [mod2pi(alpha - t0), p, mod2pi(beta - t0)] });
+  }
+  // RLR
+  let c = (6 - d2 + 2 * cab + 2 * d * (sa - sb)) / 8;
+  if (Math.abs(c) <= 1) {
+    const p = mod2pi(TWO_PI - Math.acos(c));
+    const t = mod2pi(alpha - Math.atan2(ca - cb, d - sa + sb) + p / 2);
+    words.push({ types: ['R', 'L', 'R'], lengths: [t, p, mod2pi(alpha - beta - t + p)] });
+  }
+  // LRL
+  c = (6 - d2 + 2 * cab + 2 * d * (sb - sa)) / 8;
+  if (Math.abs(c) <= 1) {
+    const p = mod2pi(TWO_PI - Math.acos(c));
+    const t = mod2pi(-alpha - Math.atan2(ca - cb, d + sa - sb) + p / 2);
+    words.push({ types: ['L', 'R', 'L'], lengths: [t, p, mod2pi(beta - alpha - t + p)] });
+  }
+  return words;
+};
+
+const dubins = (x: number, y: number, phi: number): Word | null => {
+  const d = Math.hypot(x, y);
+  const theta = d > EPS ? mod2pi(Math.atan2(y, x)) : 0;
+  return shortest(dubinsWords(mod2pi(-theta), mod2pi(phi - theta), d));
+};
+
+// --- Reeds-Shepp (formula numbers from Reeds & Shepp 1990, with the usual corrections) ---
+// Each base formula solves one family for a goal (x, y, phi) relative to the start. The other
+// members come from the time-flip (-x, y, -phi: every segment reversed), reflection
+// (x, -y, -phi: left and right swapped) and backwards (reverse segment order) symmetries.
+
+type Solver = (x: number, y: number, phi: number) => number[] | null;
+
+const ZERO = 1e-10;
+
+// 8.1: L+ S+ L+
+const lpSpLp: Solver = (x, y, phi) => {
+  const [u, t] = polar(x - Math.sin(phi), y - 1 + Math.cos(phi));
+  if (t < -ZERO) return null;
+  const v = wrapPi(phi - t);
+  return v >= -ZERO ? [t, u, v] : null;
+};
+
+// 8.2: L+ S+ R+
+const lpSpRp: Solver = (x, y, phi) => {
+  const [u1, t1] = polar(x + Math.sin(phi), y - 1 - Math.cos(phi));
+  const u1sq = u1 * u1;
+  if (u1sq < 4) return null;
+  const u = Math.sqrt(u1sq - 4);
+  const t = wrapPi(t1 + Math.atan2(2, u));
+  const v = wrapPi(t - phi);
+  return t >= -ZERO && v >= -ZERO ? [t, u, v] : null;
+};
+
+// 8.3: L+ R- L
+const lpRmL: Solver = (x, y, phi) => {
+  const [u1, theta] = polar(x - Math.sin(phi), y - 1 + Math.cos(phi));
+  if (u1 > 4) return null;
+  const u = -2 * Math.asin(0.25 * u1);
+  const t = wrapPi(theta + 0.5 * u + Math.PI);
+  const v = wrapPi(phi - t + u);
+  return t >= -ZERO && u <= ZERO ? [t, u, v] : null;
+};
+
+const tauOmega = (u: number, v: number, xi: number, eta: number, phi: number): [number, number] => {
+  const delta = wrapPi(u - v);
+  const a = Math.sin(u) - Math.sin(delta);
+  const b = Math.cos(u) - Math.cos(delta) - 1;
+  const t1 = Math.atan2(eta * a - xi * b, xi * a + eta * b);
+  const t2 = 2 * (Math.cos(delta) - Math.cos(v) - Math.cos(u)) + 3;
+  const tau = t2 < 0 ? wrapPi(t1 + Math.PI) : wrapPi(t1);
+  return [tau, wrapPi(tau - u + v - phi)];
+};
+
+// 8.7: L+ R+ L- R-
+const lpRupLumRm: Solver = (x, y, phi) => {
+  const xi = x + Math.sin(phi), eta = y - 1 - Math.cos(phi);
+  const rho = 0.25 * (2 + Math.hypot(xi, eta));
+  if (rho > 1) return null;
+  const u = Math.acos(rho);
+  const [t, v] = tauOmega(u, -u, xi, eta, phi);
+  return t >= -ZERO && v <= ZERO ? [t, u, v] : null;
+};
+
+// 8.8: L+ R- L- R+
+const lpRumLumRp: Solver = (x, y, phi) => {
+  const xi = x + Math.sin(phi), eta = y - 1 - Math.cos(phi);
+  const rho = (20 - xi * xi - eta * eta) / 16;
+  if (rho < 0 || rho > 1) return null;
+  const u = -Math.acos(rho);
+  if (u < -0.5 * Math.PI) return null;
+  const [t, v] = tauOmega(u, u, xi, eta, phi);
+  return t >= -ZERO && v >= -ZERO ? [t, u, v] : null;
+};
+
+// 8.9: L+ R-(π/2) S- L-
+const lpRmSmLm: Solver = (x, y, phi) => {
+  const [rho, theta] = polar(x - Math.sin(phi), y - 1 + Math.cos(phi));
+  if (rho < 2) return null;
+  const r = Math.sqrt(rho * rho - 4);
+  const u = 2 - r;
+  const t = wrapPi(theta + Math.atan2(r, -2));
+  const v = wrapPi(phi - 0.5 * Math.PI - t);
+  return t >= -ZERO && u <= ZERO && v <= ZERO ? [t, u, v] : null;
+};
+
+// 8.10: L+ R-(π/2) S- R-
+const lpRmSmRm: Solver = (x, y, phi) => {
+  const xi = x + Math.sin(phi), eta = y - 1 - Math.cos(phi);
+  const [rho, theta] = polar(-eta, xi);
+  if (rho < 2) return null;
+  const t = theta;
+  const u = 2 - rho;
+  const v = wrapPi(t + 0.5 * Math.PI - phi);
+  return t >= -ZERO && u <= ZERO && v <= ZERO ? [t, u, v] : null;
+};
+
+// 8.11: L+ R-(π/2) S- L-(π/2) R+
+const lpRmSLmRp: Solver = (x, y, phi) => {
+  const xi = x + Math.sin(phi), eta = y - 1 - Math.cos(phi);
+  const [rho] = polar(xi, eta);
+  if (rho < 2) return null;
+  const u = 4 - Math.sqrt(rho * rho - 4);
+  if (u > ZERO) return null;
+  const t = wrapPi(Math.atan2((4 - u) * xi - 2 * eta, -2 * xi + (u - 4) * eta));
+  const v = wrapPi(t - phi);
+  return t >= -ZERO && v >= -ZERO ? [t, u, v] : null;
+};
+
+const swapLR = (types: SegmentType[]): SegmentType[] => types.map(t => (t === 'L' ? 'R' : t === 'R' ? 'L' : 'S'));
+
+// Runs a family formula under the time-flip and reflection symmetries (and optionally
+// backwards). `build` turns the formula's (t, u, v) into the word's segment lengths.
+const family = (
+  x: number, y: number, phi: number, solve: Solver, types: SegmentType[],
+  build: (r: number[]) => number[], backwards = false,
+): Word[] => {
+  const words: Word[] = [];
+  const variants = (bx: number, by: number, reverseOrder: boolean) => {
+    const add = (r: number[] | null, flip: boolean, reflect: boolean) => {
+      if (!r) return;
+      let lengths = build(r);
+      let wordTypes = reflect ? swapLR(types) : types;
+      if (flip) lengths = lengths.map(l => -l);
+      if (reverseOrder) {
+        lengths = [...lengths].reverse();
+        wordTypes = [...wordTypes].reverse();
+      }
+      words.push({ types: wordTypes, lengths });
+    };
+    add(solve(bx, by, phi), false, false);
+    add(solve(-bx, by, -phi), true, false);
+    add(solve(bx, -by, -phi), false, true);
+    add(solve(-bx, -by, phi), true, true);
+  };
+  variants(x, y, false);
+  if (backwards) {
+    const xb = x * Math.cos(phi) + y * Math.sin(phi);
+    const yb = x * Math.sin(phi) - y * Math.cos(phi);
+    variants(xb, yb, true);
+  }
+  return words;
+};
+
+const HALF_PI = Math.PI / 2;
+
+const reedsShepp = (x: number, y: number, phi: number): Word | null => {
+  return shortest([
+    // CSC
+    ...family(x, y, phi, lpSpLp, ['L', 'S', 'L'], ([t, u, v]) => [t, u, v]),
+    ...family(x, y, phi, lpSpRp, ['L', 'S', 'R'], ([t, u, v]) => [t, u, v]),
+    // CCC
+    ...family(x, y, phi, lpRmL, ['L', 'R', 'L'], ([t, u, v]) => [t, u, v], true),
+    // CCCC
+    ...family(x, y, phi, lpRupLumRm, ['L', 'R', 'L', 'R'], ([t, u, v]) => [t, u, -u, v]),
+    ...family(x, y, phi, lpRumLumRp, ['L', 'R', 'L', 'R'], ([t, u, v]) => [t, u, u, v]),
+    // CCSC
+    ...family(x, y, phi, lpRmSmLm, ['L', 'R', 'S', 'L'], ([t, u, v]) => [t, -HALF_PI, u, v], true),
+    ...family(x, y, phi, lpRmSmRm, ['L', 'R', 'S', 'R'], ([t, u, v]) => [t, -HALF_PI, u, v], true),
+    // CCSCC
+    ...family(x, y, phi, lpRmSLmRp, ['L', 'R', 'S', 'L', 'R'], ([t, u, v]) => [t, -HALF_PI, u, -HALF_PI, v]),
+  ]);
+};
+
+// --- Public API (canvas coordinates, y down) ---
+
+// Shortest Dubins or Reeds-Shepp curve from `from` to `to`, or null if none exists
+export const shortestCurve = (from: Pose, to: Pose, radius: number, model: Exclude<MotionModel, 'holonomic'>): CurveEdge | null => {
+  // Goal relative to the start, mirrored into the y-up frame and scaled to unit radius
+  const dx = to.x - from.x;
+  const dy = -(to.y - from.y);
+  const h0 = -from.heading;
+  const c = Math.cos(h0), s = Math.sin(h0);
+  const x = (c * dx + s * dy) / radius;
+  const y = (-s * dx + c * dy) / radius;
+  const phi = -to.heading - h0;
+
+  const word = model === 'dubins' ? dubins(x, y, mod2pi(phi)) : reedsShepp(x, y, wrapPi(phi));
+  if (!word) return null;
+  const segments: CurveSegment[] = [];
+  word.types.forEach((type, i) => {
+    const length = word.lengths[i] * radius;
+    if (Math.abs(length) > EPS) segments.push({ type, length });
+  });
+  return { segments, radius, length: segments.reduce((sum, seg) => sum + Math.abs(seg.length), 0) };
+};
+
+// Pose after driving `length` (negative: in reverse) along one segment
+const advance = (p: Pose, type: SegmentType, length: number, radius: number): Pose => {
+  // In the y-up frame a left turn increases the heading; on the canvas it decreases
+  if (type === 'S') {
+    return { x: p.x + length * Math.cos(p.heading), y: p.y + length * Math.sin(p.heading), heading: p.heading };
+  }
+  const turn = (type === 'L' ? -1 : 1) * (length / radius);
+  const heading = p.heading + turn;
+  const side = type === 'L' ? -1 : 1;
+  // Centre of the turning circle is `radius` to the side of the heading
+  const cx = p.x - side * radius * Math.sin(p.heading);
+  const cy = p.y + side * radius * Math.cos(p.heading);
+  return { x: cx + side * radius * Math.sin(heading), y: cy - side * radius * Math.cos(heading), heading };
+};
+
+// The first `length` of a curve (the whole curve if it is shorter)
+export const truncateCurve = (edge: CurveEdge, length: number): CurveEdge => {
+  const segments: CurveSegment[] = [];
+  let left = length;
+  for (const seg of edge.segments) {
+    if (left <= EPS) break;
+    const take = Math.min(Math.abs(seg.length), left);
+    segments.push({ type: seg.type, length: Math.sign(seg.length) * take });
+    left -= take;
+  }
+  return { segments, radius: edge.radius, length: Math.min(length, edge.length) };
+};
+
+// Pose at the end of a curve driven from `from`
+export const curveEnd = (from: Pose, edge: CurveEdge): Pose => {
+  let p = from;
+  for (const seg of edge.segments) p = advance(p, seg.type, seg.length, edge.radius);
+  p.heading = wrapPi(p.heading);
+  return p;
+};
+
+// Points along a curve, `from` included. Arcs are split so each chord stays within
+// `tolerance` px of the arc, which makes chord-wise collision checks match the curve.
+export const curvePoints = (from: Pose, edge: CurveEdge, tolerance = 0.5): Point[] => {
+  const maxTurn = 2 * Math.acos(Math.max(-1, 1 - tolerance / edge.radius));
+  const points: Point[] = [{ x: from.x, y: from.y }];
+  let p = from;
+  for (const seg of edge.segments) {
+    const pieces = seg.type === 'S' ? 1 : Math.max(1, Math.ceil(Math.abs(seg.length) / edge.radius / maxTurn));
+    const start = p;
+    for (let i = 1; i <= pieces; i++) {
+      p = advance(start, seg.type, (seg.length * i) / pieces, edge.radius);
+      points.push({ x: p.x, y: p.y });
+    }
+  }
+  return points;
+};
+
+// Length of the edge into `child` from its parent: the curve if it has one, else straight
+export const edgeLength = (parent: Point, child: Point & { edge?: CurveEdge }): number => {
+  if (child.edge) return child.edge.length;
+  return Math.hypot(child.x - parent.x, child.y - parent.y);
+};
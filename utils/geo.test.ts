@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkCollision, isSimplePolygon, pointInObstacle, segmentIntersectsCircle, segmentIntersectsPolygon, segmentIntersectsRect } from './geo';
+import { CircleObstacle, PolygonObstacle, RectObstacle } from '../types';
+
+const box: RectObstacle = { kind: 'rect', x: 100, y: 100, w: 50, h: 50 };
+
+test('Liang–Barsky: segments that reach the box', () => {
+  assert.ok(segmentIntersectsRect({ x: 0, y: 125 }, { x: 200, y: 125 }, box), 'straight through');
+  assert.ok(segmentIntersectsRect({ x: 0, y: 0 }, { x: 200, y: 200 }, box), 'diagonally through');
+  assert.ok(segmentIntersectsRect({ x: 120, y: 120 }, { x: 130, y: 130 }, box), 'entirely inside');
+  assert.ok(segmentIntersectsRect({ x: 125, y: 0 }, { x: 125, y: 110 }, box), 'ending inside');
+  assert.ok(segmentIntersectsRect({ x: 0, y: 100 }, { x: 200, y: 100 }, box), 'along an edge');
+  assert.ok(segmentIntersectsRect({ x: 140, y: 160 }, { x: 160, y: 140 }, box), 'clipping a corner');
+});
+
+test('Liang–Barsky: segments that miss the box', () => {
+  assert.ok(!segmentIntersectsRect({ x: 0, y: 0 }, { x: 90, y: 90 }, box), 'stopping short');
+  assert.ok(!segmentIntersectsRect({ x: 0, y: 90 }, { x: 200, y: 90 }, box), 'parallel, above');
+  assert.ok(!segmentIntersectsRect({ x: 160, y: 0 }, { x: 160, y: 300 }, box), 'parallel, beside');
+  assert.ok(!segmentIntersectsRect({ x: 145, y: 170 }, { x: 170, y: 145 }, box), 'passing the corner');
+  assert.ok(!segmentIntersectsRect({ x: 0, y: 0 }, { x: 0, y: 0 }, box), 'a point outside');
+});
+
+test('exact mode catches a thin wall the sampled mode steps over', () => {
+  const wall: RectObstacle = { kind: 'rect', x: 100, y: 0, w: 1, h: 100 };
+  // 5 px long: the sampled test only looks at the two ends, both clear of the wall
+  const a = { x: 98, y: 50 };
+  const b = { x: 103, y: 50 };
+  assert.ok(checkCollision(a, b, [wall], 'exact'));
+  assert.ok(!checkCollision(a, b, [wall], 'sampled'));
+});
+
+test('collision stats count segments and primitive tests', () => {
+  const stats = { segmentChecks: 0, primitiveTests: 0 };
+  checkCollision({ x: 0, y: 0 }, { x: 10, y: 10 }, [box, { kind: 'rect', x: 300, y: 300, w: 10, h: 10 }], 'exact', stats);
+  assert.deepEqual(stats, { segmentChecks: 1, primitiveTests: 2 });
+});
+
+const circle: CircleObstacle = { kind: 'circle', x: 100, y: 100, r: 20 };
+
+test('segment vs circle', () => {
+  assert.ok(segmentIntersectsCircle({ x: 0, y: 100 }, { x: 200, y: 100 }, circle), 'through the centre');
+  assert.ok(segmentIntersectsCircle({ x: 0, y: 115 }, { x: 200, y: 115 }, circle), 'cutting a chord');
+  assert.ok(segmentIntersectsCircle({ x: 95, y: 95 }, { x: 105, y: 105 }, circle), 'entirely inside');
+  assert.ok(segmentIntersectsCircle({ x: 0, y: 120 }, { x: 200, y: 120 }, circle), 'tangent');
+  assert.ok(!segmentIntersectsCircle({ x: 0, y: 121 }, { x: 200, y: 121 }, circle), 'just past the rim');
+  // The line through the segment hits the circle, the segment itself stops short
+  assert.ok(!segmentIntersectsCircle({ x: 0, y: 100 }, { x: 70, y: 100 }, circle), 'stopping short');
+  assert.ok(!segmentIntersectsCircle({ x: 125, y: 125 }, { x: 125, y: 125 }, circle), 'a point outside');
+});
+
+// A U open at the top: the notch between its arms is free
+const cup: PolygonObstacle = {
+  kind: 'polygon',
+  points: [
+    { x: 100, y: 100 }, { x: 120, y: 100 }, { x: 120, y: 180 }, { x: 180, y: 180 },
+    { x: 180, y: 100 }, { x: 200, y: 100 }, { x: 200, y: 200 }, { x: 100, y: 200 },
+  ],
+};
+
+test('segment vs concave polygon', () => {
+  assert.ok(segmentIntersectsPolygon({ x: 50, y: 150 }, { x: 250, y: 150 }, cup), 'across both arms');
+  assert.ok(segmentIntersectsPolygon({ x: 150, y: 50 }, { x: 150, y: 250 }, cup), 'down into the base');
+  assert.ok(segmentIntersectsPolygon({ x: 105, y: 190 }, { x: 195, y: 190 }, cup), 'entirely inside the base');
+  assert.ok(!segmentIntersectsPolygon({ x: 150, y: 50 }, { x: 150, y: 170 }, cup), 'down into the notch');
+  assert.ok(!segmentIntersectsPolygon({ x: 130, y: 120 }, { x: 170, y: 170 }, cup), 'within the notch');
+  assert.ok(!segmentIntersectsPolygon({ x: 50, y: 50 }, { x: 250, y: 50 }, cup), 'above it');
+  assert.ok(pointInObstacle({ x: 110, y: 150 }, cup));
+  assert.ok(!pointInObstacle({ x: 150, y: 150 }, cup));
+});
+
+test('checkCollision dispatches on the obstacle kind', () => {
+  const a = { x: 0, y: 150 };
+  const b = { x: 300, y: 150 };
+  assert.ok(checkCollision(a, b, [cup], 'exact'));
+  assert.ok(checkCollision({ x: 0, y: 100 }, { x: 300, y: 100 }, [circle], 'exact'));
+  assert.ok(!checkCollision({ x: 0, y: 20 }, { x: 300, y: 20 }, [box, circle, cup], 'exact'));
+  assert.ok(checkCollision(a, b, [cup], 'sampled'));
+});
+
+test('simple polygons only', () => {
+  assert.ok(isSimplePolygon(cup.points));
+  assert.ok(!isSimplePolygon([{ x: 0, y: 0 }, { x: 10, y: 0 }]), 'too few vertices');
+  // A bow tie crosses itself
+  assert.ok(!isSimplePolygon([{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }]));
+});
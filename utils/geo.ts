@@ -1,16 +1,52 @@
-import { Point, Obstacle } from '../types';
+import { Point, Obstacle, RectObstacle, CircleObstacle, PolygonObstacle, CollisionMode, CollisionStats, Ellipse, OccupancyGrid } from '../types';
+import { RandomFn } from './random';
 
 export const dist = (p1: Point, p2: Point): number => {
   return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
 };
 
-export const samplePoint = (width: number, height: number): Point => {
+export const samplePoint = (width: number, height: number, random: RandomFn): Point => {
   return {
-    x: Math.random() * width,
-    y: Math.random() * height,
+    x: random() * width,
+    y: random() * height,
   };
 };
 
+// Informed RRT* region: every point whose start->p->goal detour is shorter than cBest.
+// Foci at start and goal, major axis cBest, minor axis sqrt(cBest² - cMin²).
+export const informedEllipse = (start: Point, goal: Point, cBest: number): Ellipse => {
+  const cMin = dist(start, goal);
+  return {
+    cx: (start.x + goal.x) / 2,
+    cy: (start.y + goal.y) / 2,
+    rx: cBest / 2,
+    ry: Math.sqrt(Math.max(0, cBest * cBest - cMin * cMin)) / 2,
+    angle: Math.atan2(goal.y - start.y, goal.x - start.x),
+  };
+};
+
+// Uniform sample in the unit disk, stretched and rotated onto the ellipse
+export const sampleEllipse = (e: Ellipse, random: RandomFn): Point => {
+  const r = Math.sqrt(random());
+  const theta = random() * Math.PI * 2;
+  const lx = r * Math.cos(theta) * e.rx;
+  const ly = r * Math.sin(theta) * e.ry;
+  const cos = Math.cos(e.angle);
+  const sin = Math.sin(e.angle);
+  return {
+    x: e.cx + lx * cos - ly * sin,
+    y: e.cy + lx * sin + ly * cos,
+  };
+};
+
+export const ellipseArea = (e: Ellipse): number => Math.PI * e.rx * e.ry;
+
+// Smallest gamma for which the shrinking RRT* radius is asymptotically optimal in 2D:
+// gamma* = 2 (1 + 1/d)^(1/d) (mu(X_free) / zeta_d)^(1/d), with d = 2 and zeta_2 = pi
+export const optimalGamma = (freeArea: number): number => {
+  return 2 * Math.sqrt(1.5) * Math.sqrt(freeArea / Math.PI);
+};
+
 export const steer = (from: Point, to: Point, stepSize: number): Point => {
   const d = dist(from, to);
   if (d <= stepSize) return to;
@@ -22,48 +58,267 @@ export const steer = (from: Point, to: Point, stepSize: number): Point => {
   };
 };
 
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const obstacleBounds = (obs: Obstacle): Bounds => {
+  switch (obs.kind) {
+    case 'rect':
+      return { minX: obs.x, minY: obs.y, maxX: obs.x + obs.w, maxY: obs.y + obs.h };
+    case 'circle':
+      return { minX: obs.x - obs.r, minY: obs.y - obs.r, maxX: obs.x + obs.r, maxY: obs.y + obs.r };
+    case 'polygon': {
+      const xs = obs.points.map(p => p.x);
+      const ys = obs.points.map(p => p.y);
+      return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+    }
+  }
+};
+
+// Ray casting (even-odd rule)
+export const pointInPolygon = (p: Point, points: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > p.y) !== (b.y > p.y) &&
+        p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const pointInObstacle = (p: Point, obs: Obstacle): boolean => {
+  switch (obs.kind) {
+    case 'rect':
+      return p.x >= obs.x && p.x <= obs.x + obs.w && p.y >= obs.y && p.y <= obs.y + obs.h;
+    case 'circle':
+      return dist(p, obs) <= obs.r;
+    case 'polygon':
+      return pointInPolygon(p, obs.points);
+  }
+};
+
 // Check if a point is inside any obstacle
 export const pointInObstacles = (p: Point, obstacles: Obstacle[]): boolean => {
-  return obstacles.some(obs => 
-    p.x >= obs.x && 
-    p.x <= obs.x + obs.w && 
-    p.y >= obs.y && 
-    p.y <= obs.y + obs.h
-  );
-};
-
-// Check if line segment between p1 and p2 intersects any obstacle
-// Using a simplified sampling approach for performance in JS loop, 
-// or standard line-AABB intersection.
-export const lineIntersectsObstacle = (p1: Point, p2: Point, obstacle: Obstacle): boolean => {
+  return obstacles.some(obs => pointInObstacle(p, obs));
+};
+
+const cross = (o: Point, a: Point, b: Point): number => {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+};
+
+const onSegment = (p: Point, a: Point, b: Point): boolean => {
+  return Math.min(a.x, b.x) <= p.x && p.x <= Math.max(a.x, b.x) &&
+         Math.min(a.y, b.y) <= p.y && p.y <= Math.max(a.y, b.y);
+};
+
+// Proper and touching intersections of segments ab and cd, collinear overlap included
+export const segmentsIntersect = (a: Point, b: Point, c: Point, d: Point): boolean => {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+      ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+  if (d1 === 0 && onSegment(a, c, d)) return true;
+  if (d2 === 0 && onSegment(b, c, d)) return true;
+  if (d3 === 0 && onSegment(c, a, b)) return true;
+  if (d4 === 0 && onSegment(d, a, b)) return true;
+  return false;
+};
+
+// True if no two non-adjacent edges cross; needs at least 3 vertices
+export const isSimplePolygon = (points: Point[]): boolean => {
+  const n = points.length;
+  if (n < 3) return false;
+  for (let i = 0; i < n; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    for (let j = i + 1; j < n; j++) {
+      // Skip the edge itself and its two neighbours
+      if (j === i || (j + 1) % n === i || j === (i + 1) % n) continue;
+      if (segmentsIntersect(a, b, points[j], points[(j + 1) % n])) return false;
+    }
+  }
+  return true;
+};
+
+// Exact segment vs axis-aligned box test (Liang–Barsky clipping).
+// Clips the segment's parameter range [0, 1] against each slab; if anything is left, it hits.
+export const segmentIntersectsRect = (p1: Point, p2: Point, obstacle: RectObstacle): boolean => {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const p = [-dx, dx, -dy, dy];
+  const q = [
+    p1.x - obstacle.x,
+    obstacle.x + obstacle.w - p1.x,
+    p1.y - obstacle.y,
+    obstacle.y + obstacle.h - p1.y,
+  ];
+
+  let t0 = 0;
+  let t1 = 1;
+  for (let i = 0; i < 4; i++) {
+    if (p[i] === 0) {
+      // Parallel to this slab: outside it means no hit at all
+      if (q[i] < 0) return false;
+      continue;
+    }
+    const r = q[i] / p[i];
+    if (p[i] < 0) {
+      if (r > t1) return false;
+      if (r > t0) t0 = r;
+    } else {
+      if (r < t0) return false;
+      if (r < t1) t1 = r;
+    }
+  }
+  return true;
+};
+
+// Closest point on segment p1-p2 to the centre, compared against the radius
+export const segmentIntersectsCircle = (p1: Point, p2: Point, obstacle: CircleObstacle): boolean => {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const len2 = dx * dx + dy * dy;
+  let t = len2 === 0 ? 0 : ((obstacle.x - p1.x) * dx + (obstacle.y - p1.y) * dy) / len2;
+  t = Math.max(0, Math.min(1, t));
+  const closest = { x: p1.x + t * dx, y: p1.y + t * dy };
+  return dist(closest, obstacle) <= obstacle.r;
+};
+
+// A segment hits a polygon if it crosses an edge or lies entirely inside it
+export const segmentIntersectsPolygon = (p1: Point, p2: Point, obstacle: PolygonObstacle): boolean => {
+  const pts = obstacle.points;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    if (segmentsIntersect(p1, p2, pts[j], pts[i])) return true;
+  }
+  return pointInPolygon(p1, pts);
+};
+
+export const segmentIntersectsObstacle = (p1: Point, p2: Point, obstacle: Obstacle): boolean => {
+  switch (obstacle.kind) {
+    case 'rect':
+      return segmentIntersectsRect(p1, p2, obstacle);
+    case 'circle':
+      return segmentIntersectsCircle(p1, p2, obstacle);
+    case 'polygon':
+      return segmentIntersectsPolygon(p1, p2, obstacle);
+  }
+};
+
+// Sampled segment test: checks points every 5 pixels along the line.
+// Kept for teaching: thin walls and corners can slip between samples.
+export const lineIntersectsObstacle = (p1: Point, p2: Point, obstacle: Obstacle, stats?: CollisionStats): boolean => {
   // Simple AABB check first
   const minX = Math.min(p1.x, p2.x);
   const maxX = Math.max(p1.x, p2.x);
   const minY = Math.min(p1.y, p2.y);
   const maxY = Math.max(p1.y, p2.y);
+  const bounds = obstacleBounds(obstacle);
 
-  if (maxX < obstacle.x || minX > obstacle.x + obstacle.w ||
-      maxY < obstacle.y || minY > obstacle.y + obstacle.h) {
+  if (maxX < bounds.minX || minX > bounds.maxX ||
+      maxY < bounds.minY || minY > bounds.maxY) {
     return false;
   }
 
-  // Check intersection with all 4 sides of the rectangle
-  // This is a bit computationally expensive if done naively for thousands of nodes.
   // Optimization: Sampling along the line.
   const d = dist(p1, p2);
   const steps = Math.ceil(d / 5); // Check every 5 pixels
   for (let i = 0; i <= steps; i++) {
+    if (stats) stats.primitiveTests++;
     const t = i / steps;
     const x = p1.x + t * (p2.x - p1.x);
     const y = p1.y + t * (p2.y - p1.y);
-    if (x >= obstacle.x && x <= obstacle.x + obstacle.w &&
-        y >= obstacle.y && y <= obstacle.y + obstacle.h) {
+    if (pointInObstacle({ x, y }, obstacle)) {
       return true;
     }
   }
   return false;
 };
 
-export const checkCollision = (p1: Point, p2: Point, obstacles: Obstacle[]): boolean => {
-  return obstacles.some(obs => lineIntersectsObstacle(p1, p2, obs));
+// --- Occupancy grid ---
+
+// Cells outside the bitmap count as free
+const gridCellOccupied = (grid: OccupancyGrid, cx: number, cy: number): boolean => {
+  return cx >= 0 && cy >= 0 && cx < grid.cols && cy < grid.rows && grid.cells[cy * grid.cols + cx] === 1;
+};
+
+export const pointInGrid = (p: Point, grid: OccupancyGrid): boolean => {
+  return gridCellOccupied(grid, Math.floor(p.x / grid.resolution), Math.floor(p.y / grid.resolution));
+};
+
+// Visits every cell the segment passes through (Amanatides & Woo grid traversal)
+export const segmentIntersectsGrid = (p1: Point, p2: Point, grid: OccupancyGrid, stats?: CollisionStats): boolean => {
+  const x0 = p1.x / grid.resolution, y0 = p1.y / grid.resolution;
+  const x1 = p2.x / grid.resolution, y1 = p2.y / grid.resolution;
+  let cx = Math.floor(x0), cy = Math.floor(y0);
+  const endX = Math.floor(x1), endY = Math.floor(y1);
+  const dx = x1 - x0, dy = y1 - y0;
+  const stepX = Math.sign(dx), stepY = Math.sign(dy);
+  // Parameter t (0..1 along the segment) at which the next vertical / horizontal cell border is crossed
+  let tMaxX = dx !== 0 ? ((stepX > 0 ? cx + 1 : cx) - x0) / dx : Infinity;
+  let tMaxY = dy !== 0 ? ((stepY > 0 ? cy + 1 : cy) - y0) / dy : Infinity;
+  const tDeltaX = dx !== 0 ? Math.abs(1 / dx) : Infinity;
+  const tDeltaY = dy !== 0 ? Math.abs(1 / dy) : Infinity;
+
+  for (;;) {
+    if (stats) stats.primitiveTests++;
+    if (gridCellOccupied(grid, cx, cy)) return true;
+    if ((cx === endX && cy === endY) || Math.min(tMaxX, tMaxY) > 1) return false;
+    if (tMaxX < tMaxY) {
+      cx += stepX;
+      tMaxX += tDeltaX;
+    } else if (tMaxY < tMaxX) {
+      cy += stepY;
+      tMaxY += tDeltaY;
+    } else {
+      // Exactly through a cell corner: refuse to squeeze between two diagonal walls
+      if (gridCellOccupied(grid, cx + stepX, cy) || gridCellOccupied(grid, cx, cy + stepY)) return true;
+      cx += stepX;
+      cy += stepY;
+      tMaxX += tDeltaX;
+      tMaxY += tDeltaY;
+    }
+  }
+};
+
+// Sampled counterpart of segmentIntersectsGrid, same 5px spacing as lineIntersectsObstacle
+export const lineIntersectsGrid = (p1: Point, p2: Point, grid: OccupancyGrid, stats?: CollisionStats): boolean => {
+  const steps = Math.max(1, Math.ceil(dist(p1, p2) / 5));
+  for (let i = 0; i <= steps; i++) {
+    if (stats) stats.primitiveTests++;
+    const t = i / steps;
+    if (pointInGrid({ x: p1.x + t * (p2.x - p1.x), y: p1.y + t * (p2.y - p1.y) }, grid)) return true;
+  }
+  return false;
+};
+
+export const checkCollision = (
+  p1: Point,
+  p2: Point,
+  obstacles: Obstacle[],
+  mode: CollisionMode = 'exact',
+  stats?: CollisionStats,
+  grid: OccupancyGrid | null = null
+): boolean => {
+  if (stats) stats.segmentChecks++;
+  if (grid && (mode === 'sampled' ? lineIntersectsGrid(p1, p2, grid, stats) : segmentIntersectsGrid(p1, p2, grid, stats))) {
+    return true;
+  }
+  if (mode === 'sampled') {
+    return obstacles.some(obs => lineIntersectsObstacle(p1, p2, obs, stats));
+  }
+  return obstacles.some(obs => {
+    if (stats) stats.primitiveTests++;
+    return segmentIntersectsObstacle(p1, p2, obs);
+  });
 };
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { circleGoal, goalReach, inGoalRegion, moveGoal, reachesGoal, rectGoal, sampleGoal } from './goals';
+import { createRng } from './random';
+
+const circle = circleGoal({ x: 100, y: 100 }, 20);
+const rect = rectGoal(300, 100, 40, 20);
+
+test('goal points and regions', () => {
+  assert.deepEqual(rect, { x: 320, y: 110, region: { kind: 'rect', x: 300, y: 100, w: 40, h: 20 } });
+  assert.ok(inGoalRegion({ x: 110, y: 110 }, circle));
+  assert.ok(!inGoalRegion({ x: 120, y: 120 }, circle));
+  assert.ok(inGoalRegion({ x: 339, y: 101 }, rect));
+  assert.ok(!inGoalRegion({ x: 341, y: 110 }, rect));
+});
+
+test('moving a goal carries its region along', () => {
+  const moved = moveGoal(rect, { x: 420, y: 210 });
+  assert.deepEqual(moved, { x: 420, y: 210, region: { kind: 'rect', x: 400, y: 200, w: 40, h: 20 } });
+});
+
+test('reach is the farthest region point from the goal point', () => {
+  assert.equal(goalReach(circle), 20);
+  assert.equal(goalReach(rect), Math.sqrt(20 * 20 + 10 * 10));
+});
+
+test('goal samples fall inside the region', () => {
+  const random = createRng(5);
+  for (let i = 0; i < 200; i++) {
+    assert.ok(inGoalRegion(sampleGoal(circle, random), circle));
+    assert.ok(inGoalRegion(sampleGoal(rect, random), rect));
+  }
+});
+
+test('a point robot must reach the goal point, a car only the region', () => {
+  assert.ok(reachesGoal({ x: 100, y: 100 }, [rect, circle]));
+  assert.ok(!reachesGoal({ x: 105, y: 100 }, [rect, circle]));
+  assert.ok(reachesGoal({ x: 105, y: 100, heading: 0 }, [rect, circle]));
+  assert.ok(!reachesGoal({ x: 200, y: 100, heading: 0 }, [rect, circle]));
+});
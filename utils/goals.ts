@@ -0,0 +1,53 @@
+import { EdgeEnd, Goal, Point } from '../types';
+import { dist, pointInObstacle } from './geo';
+import { RandomFn } from './random';
+
+// Radius of a new circular goal region (1.5 default steps, the old fixed tolerance)
+export const DEFAULT_GOAL_RADIUS = 45;
+export const MIN_GOAL_RADIUS = 5;
+export const MAX_GOAL_RADIUS = 150;
+
+export const circleGoal = (p: Point, r: number = DEFAULT_GOAL_RADIUS): Goal => {
+  return { x: p.x, y: p.y, region: { kind: 'circle', x: p.x, y: p.y, r } };
+};
+
+// A drawn rectangle; the goal point is its centre
+export const rectGoal = (x: number, y: number, w: number, h: number): Goal => {
+  return { x: x + w / 2, y: y + h / 2, region: { kind: 'rect', x, y, w, h } };
+};
+
+// Moves the goal point, carrying its region along
+export const moveGoal = (goal: Goal, p: Point): Goal => {
+  const dx = p.x - goal.x;
+  const dy = p.y - goal.y;
+  return { x: p.x, y: p.y, region: { ...goal.region, x: goal.region.x + dx, y: goal.region.y + dy } };
+};
+
+// Farthest a point of the region lies from the goal point
+export const goalReach = (goal: Goal): number => {
+  const region = goal.region;
+  if (region.kind === 'circle') return dist(goal, region) + region.r;
+  const dx = Math.max(goal.x - region.x, region.x + region.w - goal.x);
+  const dy = Math.max(goal.y - region.y, region.y + region.h - goal.y);
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+export const inGoalRegion = (p: Point, goal: Goal): boolean => pointInObstacle(p, goal.region);
+
+// Uniform sample in the goal region
+export const sampleGoal = (goal: Goal, random: RandomFn): Point => {
+  const region = goal.region;
+  if (region.kind === 'rect') {
+    return { x: region.x + random() * region.w, y: region.y + random() * region.h };
+  }
+  const r = region.r * Math.sqrt(random());
+  const theta = random() * Math.PI * 2;
+  return { x: region.x + r * Math.cos(theta), y: region.y + r * Math.sin(theta) };
+};
+
+// Whether a node ends a solution: a point robot must sit on a goal point (reached by the
+// direct connection), a car (a node with a heading) anywhere in a goal region
+export const reachesGoal = (node: EdgeEnd, goals: Goal[]): boolean => {
+  if (node.heading !== undefined) return goals.some(g => inGoalRegion(node, g));
+  return goals.some(g => node.x === g.x && node.y === g.y);
+};
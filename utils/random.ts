@@ -0,0 +1,18 @@
+// Small seedable PRNG so a run can be replayed exactly from its seed.
+export type RandomFn = () => number;
+
+// mulberry32: fast 32-bit generator, plenty for sampling a 2D space
+export const createRng = (seed: number): RandomFn => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+};
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GridIndex, LinearIndex } from './spatialIndex';
+import { createRng } from './random';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+const sortIds = (ids: number[]) => [...ids].sort((a, b) => a - b);
+
+test('linear and grid indexes answer queries alike', () => {
+  const random = createRng(3);
+  const linear = new LinearIndex();
+  const grid = new GridIndex(WIDTH, HEIGHT, 20);
+  for (let id = 0; id < 500; id++) {
+    const p = { x: random() * WIDTH, y: random() * HEIGHT };
+    linear.insert(id, p);
+    grid.insert(id, p);
+  }
+
+  for (let i = 0; i < 50; i++) {
+    const q = { x: random() * WIDTH, y: random() * HEIGHT };
+    assert.equal(linear.nearest(q), grid.nearest(q));
+    assert.deepEqual(sortIds(linear.near(q, 60)), sortIds(grid.near(q, 60)));
+    assert.deepEqual(linear.kNearest(q, 12), grid.kNearest(q, 12));
+  }
+  assert.ok(grid.distanceChecks < linear.distanceChecks, 'the grid should look at fewer points');
+});
+
+// Every third id left out
+test('linear and grid indexes agree on sparse ids', () => {
+  const random = createRng(7);
+  const linear = new LinearIndex();
+  const grid = new GridIndex(WIDTH, HEIGHT, 20);
+  let inserted = 0;
+  for (let id = 0; id < 600; id++) {
+    if (id % 3 === 0) continue;
+    const p = { x: random() * WIDTH, y: random() * HEIGHT };
+    linear.insert(id, p);
+    grid.insert(id, p);
+    inserted++;
+  }
+
+  for (let i = 0; i < 50; i++) {
+    const q = { x: random() * WIDTH, y: random() * HEIGHT };
+    assert.equal(linear.nearest(q), grid.nearest(q));
+    assert.deepEqual(sortIds(linear.near(q, 60)), sortIds(grid.near(q, 60)));
+    assert.deepEqual(linear.kNearest(q, 12), grid.kNearest(q, 12));
+  }
+  // One distance check per inserted point and query, holes not counted
+  assert.equal(linear.distanceChecks, 150 * inserted);
+});
+
+test('an empty index has no nearest point', () => {
+  assert.equal(new LinearIndex().nearest({ x: 1, y: 1 }), -1);
+  assert.equal(new GridIndex(WIDTH, HEIGHT, 20).nearest({ x: 1, y: 1 }), -1);
+});
@@ -0,0 +1,215 @@
+import { Point, SpatialIndexType } from '../types';
+
+// Answers the neighbour queries RRT/RRT* make every iteration.
+// Node positions never change once inserted, so indexes only need insert.
+export interface SpatialIndex {
+  insert(id: number, p: Point): void;
+  // Id of the closest inserted point, or -1 if the index is empty
+  nearest(p: Point): number;
+  // Ids of all points within `radius` of p
+  near(p: Point, radius: number): number[];
+  // Ids of the k closest points to p, nearest first
+  kNearest(p: Point, k: number): number[];
+  // Number of point-to-point distance evaluations performed so far
+  distanceChecks: number;
+}
+
+// Brute force: every query looks at every point. O(n) per query.
+// Ids need not be contiguous, so only the inserted ones are visited.
+export class LinearIndex implements SpatialIndex {
+  private ids: number[] = [];
+  private xs: number[] = [];
+  private ys: number[] = [];
+  distanceChecks = 0;
+
+  insert(id: number, p: Point) {
+    this.ids.push(id);
+    this.xs[id] = p.x;
+    this.ys[id] = p.y;
+  }
+
+  nearest(p: Point): number {
+    let best = -1;
+    let bestD2 = Infinity;
+    for (const id of this.ids) {
+      const dx = this.xs[id] - p.x;
+      const dy = this.ys[id] - p.y;
+      const d2 = dx * dx + dy * dy;
+      if (d2 < bestD2) {
+        bestD2 = d2;
+        best = id;
+      }
+    }
+    this.distanceChecks += this.ids.length;
+    return best;
+  }
+
+  near(p: Point, radius: number): number[] {
+    const result: number[] = [];
+    const r2 = radius * radius;
+    for (const id of this.ids) {
+      const dx = this.xs[id] - p.x;
+      const dy = this.ys[id] - p.y;
+      if (dx * dx + dy * dy <= r2) result.push(id);
+    }
+    this.distanceChecks += this.ids.length;
+    return result;
+  }
+
+  kNearest(p: Point, k: number): number[] {
+    const all: { id: number; d2: number }[] = [];
+    for (const id of this.ids) {
+      const dx = this.xs[id] - p.x;
+      const dy = this.ys[id] - p.y;
+      all.push({ id, d2: dx * dx + dy * dy });
+    }
+    this.distanceChecks += this.ids.length;
+    all.sort((a, b) => a.d2 - b.d2);
+    return all.slice(0, k).map(c => c.id);
+  }
+}
+
+// Uniform grid of buckets over the world. Nearest searches rings of cells outward
+// from the query and stops once no unvisited cell can hold anything closer.
+export class GridIndex implements SpatialIndex {
+  private cellSize: number;
+  private cols: number;
+  private rows: number;
+  private cells: number[][];
+  private xs: number[] = [];
+  private ys: number[] = [];
+  private count = 0;
+  distanceChecks = 0;
+
+  constructor(width: number, height: number, cellSize: number) {
+    this.cellSize = Math.max(1, cellSize);
+    this.cols = Math.max(1, Math.ceil(width / this.cellSize));
+    this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+    this.cells = Array.from({ length: this.cols * this.rows }, () => []);
+  }
+
+  private cellX(x: number): number {
+    return Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellSize)));
+  }
+
+  private cellY(y: number): number {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+  }
+
+  insert(id: number, p: Point) {
+    this.xs[id] = p.x;
+    this.ys[id] = p.y;
+    this.cells[this.cellY(p.y) * this.cols + this.cellX(p.x)].push(id);
+    this.count++;
+  }
+
+  private scanCell(cx: number, cy: number, p: Point, best: { id: number; d2: number }) {
+    const bucket = this.cells[cy * this.cols + cx];
+    for (const id of bucket) {
+      const dx = this.xs[id] - p.x;
+      const dy = this.ys[id] - p.y;
+      const d2 = dx * dx + dy * dy;
+      if (d2 < best.d2) {
+        best.d2 = d2;
+        best.id = id;
+      }
+    }
+    this.distanceChecks += bucket.length;
+  }
+
+  // Visits the cells of ring r (Chebyshev distance r from the centre cell), then asks
+  // `done` whether to stop, passing the guaranteed distance to any cell further out
+  private searchRings(p: Point, visit: (cx: number, cy: number) => void, done: (margin: number) => boolean) {
+    const cx = this.cellX(p.x);
+    const cy = this.cellY(p.y);
+    const maxRing = Math.max(this.cols, this.rows);
+
+    for (let r = 0; r <= maxRing; r++) {
+      const x0 = cx - r, x1 = cx + r, y0 = cy - r, y1 = cy + r;
+      for (let x = x0; x <= x1; x++) {
+        if (x < 0 || x >= this.cols) continue;
+        if (y0 >= 0) visit(x, y0);
+        if (r > 0 && y1 < this.rows) visit(x, y1);
+      }
+      for (let y = y0 + 1; y <= y1 - 1; y++) {
+        if (y < 0 || y >= this.rows) continue;
+        if (x0 >= 0) visit(x0, y);
+        if (x1 < this.cols) visit(x1, y);
+      }
+
+      // Anything in ring r+1 lies outside the block scanned so far
+      const margin = Math.min(
+        p.x - x0 * this.cellSize,
+        (x1 + 1) * this.cellSize - p.x,
+        p.y - y0 * this.cellSize,
+        (y1 + 1) * this.cellSize - p.y
+      );
+      if (margin > 0 && done(margin)) return;
+    }
+  }
+
+  nearest(p: Point): number {
+    if (this.count === 0) return -1;
+    const best = { id: -1, d2: Infinity };
+    this.searchRings(
+      p,
+      (cx, cy) => this.scanCell(cx, cy, p, best),
+      margin => best.id !== -1 && best.d2 <= margin * margin
+    );
+    return best.id;
+  }
+
+  kNearest(p: Point, k: number): number[] {
+    const found: { id: number; d2: number }[] = [];
+    if (k <= 0) return [];
+    const want = Math.min(k, this.count);
+    this.searchRings(
+      p,
+      (cx, cy) => {
+        const bucket = this.cells[cy * this.cols + cx];
+        for (const id of bucket) {
+          const dx = this.xs[id] - p.x;
+          const dy = this.ys[id] - p.y;
+          found.push({ id, d2: dx * dx + dy * dy });
+        }
+        this.distanceChecks += bucket.length;
+      },
+      margin => {
+        if (found.length < want) return false;
+        found.sort((a, b) => a.d2 - b.d2);
+        found.length = want;
+        return found[want - 1].d2 <= margin * margin;
+      }
+    );
+    found.sort((a, b) => a.d2 - b.d2);
+    return found.slice(0, want).map(c => c.id);
+  }
+
+  near(p: Point, radius: number): number[] {
+    const result: number[] = [];
+    const r2 = radius * radius;
+    const x0 = this.cellX(p.x - radius), x1 = this.cellX(p.x + radius);
+    const y0 = this.cellY(p.y - radius), y1 = this.cellY(p.y + radius);
+    for (let cy = y0; cy <= y1; cy++) {
+      for (let cx = x0; cx <= x1; cx++) {
+        const bucket = this.cells[cy * this.cols + cx];
+        for (const id of bucket) {
+          const dx = this.xs[id] - p.x;
+          const dy = this.ys[id] - p.y;
+          if (dx * dx + dy * dy <= r2) result.push(id);
+        }
+        this.distanceChecks += bucket.length;
+      }
+    }
+    return result;
+  }
+}
+
+export const createSpatialIndex = (
+  type: SpatialIndexType,
+  width: number,
+  height: number,
+  cellSize: number
+): SpatialIndex => {
+  return type === 'grid' ? new GridIndex(width, height, cellSize) : new LinearIndex();
+};